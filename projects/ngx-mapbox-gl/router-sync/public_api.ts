@@ -0,0 +1,6 @@
+/*
+ * Public API Surface of ngx-mapbox-gl/router-sync
+ */
+
+export * from './src/router-sync.module';
+export * from './src/router-sync.directive';
@@ -0,0 +1,75 @@
+import { QueryList } from '@angular/core';
+import { convertToParamMap, ParamMap } from '@angular/router';
+import { LayerComponent } from 'ngx-mapbox-gl';
+import { BehaviorSubject, EMPTY, of } from 'rxjs';
+import { RouterSyncDirective } from './router-sync.directive';
+
+describe('RouterSyncDirective', () => {
+  class MapServiceSpy {
+    mapLoaded$ = of(undefined);
+    on$ = jasmine.createSpy('on$').and.returnValue(EMPTY);
+    move = jasmine.createSpy('move');
+    setAllLayerLayoutProperty = jasmine.createSpy('setAllLayerLayoutProperty');
+    mapInstance = {
+      getCenter: () => ({ lng: 0, lat: 0 }),
+      getZoom: () => 1,
+      getBearing: () => 0,
+      getPitch: () => 0,
+      getLayer: (layerId: string) => layerId === 'missing' ? undefined : { id: layerId },
+      getLayoutProperty: () => 'visible'
+    };
+  }
+
+  let msSpy: MapServiceSpy;
+  let routerSpy: { navigate: jasmine.Spy };
+  let queryParamMap: BehaviorSubject<ParamMap>;
+  let directive: RouterSyncDirective;
+
+  beforeEach(() => {
+    msSpy = new MapServiceSpy();
+    routerSpy = { navigate: jasmine.createSpy('navigate') };
+    queryParamMap = new BehaviorSubject(convertToParamMap({}));
+    const zone = { run: (fn: () => void) => fn() };
+    const mapComponent = { movingMethod: 'flyTo', movingOptions: { speed: 2 } };
+    directive = new RouterSyncDirective(
+      <any>msSpy,
+      <any>mapComponent,
+      <any>routerSpy,
+      <any>{ queryParamMap, snapshot: { queryParamMap: convertToParamMap({}) } },
+      <any>zone
+    );
+    directive.layers = new QueryList<LayerComponent>();
+  });
+
+  afterEach(() => directive.ngOnDestroy());
+
+  it('should jump to the camera of the query params, then move with the map moving method', () => {
+    queryParamMap.next(convertToParamMap({ center: '2,3', zoom: '4' }));
+    directive.ngAfterContentInit();
+    expect(msSpy.move).toHaveBeenCalledWith('jumpTo', undefined, 4, [2, 3], 0, 0);
+    queryParamMap.next(convertToParamMap({ center: '5,6', zoom: '7', bearing: '10' }));
+    expect(msSpy.move).toHaveBeenCalledWith('flyTo', { speed: 2 }, 7, [5, 6], 10, 0);
+  });
+
+  it('should ignore invalid query params', () => {
+    queryParamMap.next(convertToParamMap({ center: 'a,3', zoom: '4' }));
+    directive.ngAfterContentInit();
+    expect(msSpy.move).not.toHaveBeenCalled();
+  });
+
+  it('should restore the layers visibility through their mgl-layer', () => {
+    const layer = jasmine.createSpyObj('LayerComponent', ['setVisibility']);
+    layer.id = 'layerA';
+    directive.layers.reset([layer]);
+    directive.routerSyncLayerIds = ['layerA', 'layerB', 'missing'];
+    queryParamMap.next(convertToParamMap({ center: '0,0', zoom: '1', layers: 'layerB' }));
+    directive.ngAfterContentInit();
+    expect(layer.setVisibility).toHaveBeenCalledWith('none');
+    // layerB is a style layer without mgl-layer, already visible
+    expect(msSpy.setAllLayerLayoutProperty).not.toHaveBeenCalled();
+    queryParamMap.next(convertToParamMap({ center: '0,0', zoom: '1', layers: 'layerA' }));
+    expect(layer.setVisibility).toHaveBeenCalledWith('visible');
+    expect(msSpy.setAllLayerLayoutProperty).toHaveBeenCalledWith('layerB', { visibility: 'none' });
+    expect(msSpy.setAllLayerLayoutProperty).not.toHaveBeenCalledWith('missing', jasmine.anything());
+  });
+});
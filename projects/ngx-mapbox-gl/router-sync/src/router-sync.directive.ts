@@ -0,0 +1,174 @@
+import { AfterContentInit, ContentChildren, Directive, Host, Input, NgZone, OnDestroy, QueryList } from '@angular/core';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { LayerComponent, MapComponent, MapService } from 'ngx-mapbox-gl';
+import { merge, Subscription } from 'rxjs';
+import { debounceTime, switchMap } from 'rxjs/operators';
+
+interface RouterCameraState {
+  center: [number, number];
+  zoom: number;
+  bearing: number;
+  pitch: number;
+  layers?: string[];
+}
+
+@Directive({
+  selector: 'mgl-map[mglRouterSync]'
+})
+export class RouterSyncDirective implements AfterContentInit, OnDestroy {
+  /* Init inputs */
+  // Query params prefix, needed when several maps are synced on the same route
+  @Input() mglRouterSync = '';
+  @Input() routerSyncDebounce = 500;
+  @Input() routerSyncReplaceUrl = false;
+
+  /* Dynamic inputs */
+  // Layers whose visibility is written to (and restored from) the query params
+  @Input() routerSyncLayerIds?: string[];
+
+  @ContentChildren(LayerComponent, { descendants: true }) layers: QueryList<LayerComponent>;
+
+  private sub = new Subscription();
+
+  constructor(
+    private MapService: MapService,
+    @Host() private MapComponent: MapComponent,
+    private Router: Router,
+    private ActivatedRoute: ActivatedRoute,
+    private zone: NgZone
+  ) { }
+
+  ngAfterContentInit() {
+    // Subscribe after the content (eg: mgl-layer) so that layers are added when restoring their visibility
+    let firstRestore = true;
+    const restoreSub = this.MapService.mapLoaded$.pipe(
+      switchMap(() => this.ActivatedRoute.queryParamMap)
+    ).subscribe((params) => {
+      this.restore(params, firstRestore);
+      firstRestore = false;
+    });
+    const writeSub = merge(
+      this.MapService.on$('moveend', { outsideAngular: true }),
+      this.MapService.on$('styledata', { outsideAngular: true })
+    ).pipe(
+      debounceTime(this.routerSyncDebounce)
+    ).subscribe(() => this.write());
+    this.sub.add(restoreSub);
+    this.sub.add(writeSub);
+  }
+
+  ngOnDestroy() {
+    this.sub.unsubscribe();
+  }
+
+  private restore(params: ParamMap, jump: boolean) {
+    const state = this.parseParams(params);
+    if (!state) {
+      return;
+    }
+    const current = this.getCameraState();
+    if (
+      state.center[0] !== current.center[0] || state.center[1] !== current.center[1] ||
+      state.zoom !== current.zoom || state.bearing !== current.bearing || state.pitch !== current.pitch
+    ) {
+      this.MapService.move(
+        jump ? 'jumpTo' : this.MapComponent.movingMethod,
+        jump ? undefined : this.MapComponent.movingOptions,
+        state.zoom,
+        state.center,
+        state.bearing,
+        state.pitch
+      );
+    }
+    if (this.routerSyncLayerIds && state.layers) {
+      for (const layerId of this.routerSyncLayerIds) {
+        if (!this.MapService.mapInstance.getLayer(layerId)) {
+          continue;
+        }
+        const visibility = state.layers.indexOf(layerId) > -1 ? 'visible' : 'none';
+        // Through the mgl-layer when there is one, so that its layout and its group stay in sync with the map
+        const layer = this.layers.find((l) => l.id === layerId);
+        if (layer) {
+          layer.setVisibility(visibility);
+        } else if (this.MapService.mapInstance.getLayoutProperty(layerId, 'visibility') !== visibility) {
+          this.MapService.setAllLayerLayoutProperty(layerId, { visibility });
+        }
+      }
+    }
+  }
+
+  private write() {
+    const state = this.getCameraState();
+    const prefix = this.mglRouterSync;
+    const queryParams: Params = {
+      [`${prefix}center`]: state.center.join(','),
+      [`${prefix}zoom`]: `${state.zoom}`,
+      // null removes the param
+      [`${prefix}bearing`]: state.bearing ? `${state.bearing}` : null,
+      [`${prefix}pitch`]: state.pitch ? `${state.pitch}` : null
+    };
+    if (state.layers) {
+      queryParams[`${prefix}layers`] = state.layers.join(',');
+    }
+    const currentParams = this.ActivatedRoute.snapshot.queryParamMap;
+    const changed = Object.keys(queryParams).some((key) => currentParams.get(key) !== queryParams[key]);
+    if (!changed) {
+      return;
+    }
+    this.zone.run(() => {
+      this.Router.navigate([], {
+        relativeTo: this.ActivatedRoute,
+        queryParams,
+        queryParamsHandling: 'merge',
+        replaceUrl: this.routerSyncReplaceUrl
+      });
+    });
+  }
+
+  private parseParams(params: ParamMap): RouterCameraState | undefined {
+    const prefix = this.mglRouterSync;
+    const center = params.get(`${prefix}center`);
+    const zoom = params.get(`${prefix}zoom`);
+    if (!center || !zoom) {
+      return undefined;
+    }
+    const state: RouterCameraState = {
+      center: <[number, number]>center.split(',').map(Number),
+      zoom: Number(zoom),
+      bearing: Number(params.get(`${prefix}bearing`) || 0),
+      pitch: Number(params.get(`${prefix}pitch`) || 0)
+    };
+    if ([...state.center, state.zoom, state.bearing, state.pitch].some(isNaN) || state.center.length !== 2) {
+      return undefined;
+    }
+    const layers = params.get(`${prefix}layers`);
+    if (layers !== null) {
+      state.layers = layers ? layers.split(',') : [];
+    }
+    return state;
+  }
+
+  /**
+   * Current camera, rounded the same way it is written to the url
+   */
+  private getCameraState(): RouterCameraState {
+    const mapInstance = this.MapService.mapInstance;
+    const center = mapInstance.getCenter();
+    const state: RouterCameraState = {
+      center: [round(center.lng, 5), round(center.lat, 5)],
+      zoom: round(mapInstance.getZoom(), 2),
+      bearing: round(mapInstance.getBearing(), 1),
+      pitch: round(mapInstance.getPitch(), 1)
+    };
+    if (this.routerSyncLayerIds) {
+      state.layers = this.routerSyncLayerIds.filter((layerId) =>
+        mapInstance.getLayer(layerId) && mapInstance.getLayoutProperty(layerId, 'visibility') !== 'none'
+      );
+    }
+    return state;
+  }
+}
+
+function round(value: number, decimals: number) {
+  return Number(value.toFixed(decimals));
+}
@@ -0,0 +1,15 @@
+import { NgModule } from '@angular/core';
+import { RouterSyncDirective } from './router-sync.directive';
+
+/**
+ * Separate entry point, so that @angular/router is only needed by the apps using it
+ */
+@NgModule({
+  declarations: [
+    RouterSyncDirective
+  ],
+  exports: [
+    RouterSyncDirective
+  ]
+})
+export class NgxMapboxGLRouterSyncModule { }
@@ -0,0 +1,68 @@
+import { ElementRef } from '@angular/core';
+import { async, ComponentFixture, fakeAsync, TestBed, tick } from '@angular/core/testing';
+import { MapService } from '../map/map.service';
+import { MapSyncService } from '../map-sync/map-sync.service';
+import { CompareComponent } from './compare.component';
+
+describe('CompareComponent', () => {
+  class MapSyncServiceSpy {
+    addMap = jasmine.createSpy('addMap');
+    removeMap = jasmine.createSpy('removeMap');
+  }
+
+  let syncSpy: MapSyncServiceSpy;
+  let component: CompareComponent;
+  let fixture: ComponentFixture<CompareComponent>;
+  let mapServices: MapService[];
+  let mapElements: ElementRef[];
+
+  const setMaps = (count: number) => {
+    component.mapServices.reset(mapServices.slice(0, count));
+    component.mapElements.reset(mapElements.slice(0, count));
+    component.mapServices.notifyOnChanges();
+    component.mapElements.notifyOnChanges();
+    tick();
+  };
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [CompareComponent],
+      providers: [
+        { provide: MapSyncService, useClass: MapSyncServiceSpy }
+      ]
+    })
+      .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(CompareComponent);
+    component = fixture.componentInstance;
+    syncSpy = <any>TestBed.get(MapSyncService);
+    mapServices = [<MapService>{}, <MapService>{}, <MapService>{}];
+    mapElements = mapServices.map(() => new ElementRef(document.createElement('div')));
+    spyOn(console, 'warn');
+  });
+
+  it('should hide the swiper without two maps', () => {
+    expect(() => fixture.detectChanges()).not.toThrow();
+    expect(component.swiper.nativeElement.style.display).toEqual('none');
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should compare the maps added after init', fakeAsync(() => {
+    fixture.detectChanges();
+    setMaps(2);
+    expect(syncSpy.addMap).toHaveBeenCalledTimes(2);
+    expect(component.swiper.nativeElement.style.display).toEqual('');
+    expect(mapElements[0].nativeElement.style.clipPath).toEqual('');
+    expect(mapElements[1].nativeElement.style.clipPath).toContain('50%');
+  }));
+
+  it('should stop syncing the removed maps', fakeAsync(() => {
+    fixture.detectChanges();
+    setMaps(3);
+    setMaps(2);
+    expect(syncSpy.removeMap).toHaveBeenCalledWith(jasmine.any(String), mapServices[2]);
+    expect(mapElements[1].nativeElement.style.clipPath).toContain('50%');
+  }));
+});
@@ -0,0 +1,184 @@
+import {
+  AfterContentInit,
+  ChangeDetectionStrategy,
+  Component,
+  ContentChildren,
+  ElementRef,
+  EventEmitter,
+  Input,
+  NgZone,
+  OnChanges,
+  OnDestroy,
+  Output,
+  QueryList,
+  SimpleChanges,
+  ViewChild,
+  ViewEncapsulation
+} from '@angular/core';
+import { fromEvent, merge, Observable, Subscription } from 'rxjs';
+import { auditTime, map, switchMap, takeUntil } from 'rxjs/operators';
+import { MapComponent } from '../map/map.component';
+import { MapService } from '../map/map.service';
+import { MapSyncService } from '../map-sync/map-sync.service';
+
+let compareIdCounter = 0;
+
+@Component({
+  selector: 'mgl-compare',
+  template: `
+    <div class="mgl-compare" #container>
+      <ng-content></ng-content>
+      <div class="mgl-compare-swiper mgl-compare-swiper-{{ orientation }}" #swiper></div>
+    </div>
+  `,
+  styles: [`
+    mgl-compare {
+      display: block;
+    }
+    .mgl-compare {
+      position: relative;
+      height: 100%;
+      width: 100%;
+      overflow: hidden;
+    }
+    .mgl-compare > mgl-map {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 100%;
+    }
+    .mgl-compare-swiper {
+      position: absolute;
+      z-index: 1;
+      background-color: #fff;
+      box-shadow: 0 0 2px rgba(0, 0, 0, 0.5);
+    }
+    .mgl-compare-swiper-vertical {
+      top: 0;
+      bottom: 0;
+      width: 4px;
+      margin-left: -2px;
+      cursor: ew-resize;
+    }
+    .mgl-compare-swiper-horizontal {
+      left: 0;
+      right: 0;
+      height: 4px;
+      margin-top: -2px;
+      cursor: ns-resize;
+    }
+  `],
+  encapsulation: ViewEncapsulation.None,
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CompareComponent implements OnChanges, OnDestroy, AfterContentInit {
+  /* Dynamic inputs */
+  @Input() orientation: 'vertical' | 'horizontal' = 'vertical';
+  // Between 0 and 1, relative to the container size
+  @Input() position = 0.5;
+
+  @Output() positionChange = new EventEmitter<number>();
+
+  @ContentChildren(MapComponent, { read: MapService }) mapServices: QueryList<MapService>;
+  @ContentChildren(MapComponent, { read: ElementRef }) mapElements: QueryList<ElementRef>;
+
+  @ViewChild('container') container: ElementRef;
+  @ViewChild('swiper') swiper: ElementRef;
+
+  private syncGroup = `mgl-compare-${++compareIdCounter}`;
+  private syncedMaps: MapService[] = [];
+  private sub = new Subscription();
+
+  constructor(
+    private MapSyncService: MapSyncService,
+    private zone: NgZone
+  ) { }
+
+  ngAfterContentInit() {
+    this.updateMaps();
+    // The maps can be added or removed later (eg *ngIf), both queries notify their changes one after the other
+    this.sub.add(merge(this.mapServices.changes, this.mapElements.changes).pipe(
+      auditTime(0)
+    ).subscribe(() => this.updateMaps()));
+    this.zone.runOutsideAngular(() => this.handleSwipe());
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (
+      changes.position && !changes.position.isFirstChange() ||
+      changes.orientation && !changes.orientation.isFirstChange()
+    ) {
+      this.updatePosition();
+    }
+  }
+
+  ngOnDestroy() {
+    this.sub.unsubscribe();
+    this.syncedMaps.forEach((mapService) => this.MapSyncService.removeMap(this.syncGroup, mapService));
+  }
+
+  private updateMaps() {
+    const mapServices = this.mapServices.toArray();
+    this.syncedMaps
+      .filter((mapService) => mapServices.indexOf(mapService) === -1)
+      .forEach((mapService) => this.MapSyncService.removeMap(this.syncGroup, mapService));
+    mapServices
+      .filter((mapService) => this.syncedMaps.indexOf(mapService) === -1)
+      .forEach((mapService) => this.MapSyncService.addMap(this.syncGroup, mapService, { syncBearing: true, syncPitch: true }));
+    this.syncedMaps = mapServices;
+    if (mapServices.length !== 2) {
+      console.warn(`mgl-compare needs exactly two mgl-map, got ${mapServices.length}`);
+    }
+    this.updatePosition();
+  }
+
+  private handleSwipe() {
+    const swiper = this.swiper.nativeElement;
+    const start$ = merge(fromEvent<Event>(swiper, 'mousedown'), fromEvent<Event>(swiper, 'touchstart'));
+    const move$: Observable<MouseEvent | Touch> = merge(
+      fromEvent<MouseEvent>(document, 'mousemove'),
+      fromEvent<TouchEvent>(document, 'touchmove').pipe(map((evt) => evt.touches[0]))
+    );
+    const end$ = merge(fromEvent(document, 'mouseup'), fromEvent(document, 'touchend'));
+    const sub = start$.pipe(
+      switchMap((evt: Event) => {
+        evt.preventDefault();
+        return move$.pipe(takeUntil(end$));
+      })
+    ).subscribe((pointer) => {
+      if (this.syncedMaps.length !== 2) {
+        return;
+      }
+      const rect: ClientRect = this.container.nativeElement.getBoundingClientRect();
+      const position = this.orientation === 'vertical' ?
+        (pointer.clientX - rect.left) / rect.width :
+        (pointer.clientY - rect.top) / rect.height;
+      this.position = Math.min(Math.max(position, 0), 1);
+      this.updatePosition();
+      this.zone.run(() => this.positionChange.emit(this.position));
+    });
+    this.sub.add(sub);
+  }
+
+  private updatePosition() {
+    const percent = `${this.position * 100}%`;
+    const swiperStyle = this.swiper.nativeElement.style;
+    this.mapElements.forEach((mapElement) => mapElement.nativeElement.style.clipPath = '');
+    // Nothing to compare, the maps are displayed as is
+    swiperStyle.display = this.syncedMaps.length === 2 ? '' : 'none';
+    if (this.syncedMaps.length !== 2) {
+      return;
+    }
+    // The second map is displayed on top of the first one
+    const topMapStyle = this.mapElements.last.nativeElement.style;
+    if (this.orientation === 'vertical') {
+      swiperStyle.left = percent;
+      swiperStyle.top = '';
+      topMapStyle.clipPath = `inset(0 0 0 ${percent})`;
+    } else {
+      swiperStyle.top = percent;
+      swiperStyle.left = '';
+      topMapStyle.clipPath = `inset(${percent} 0 0 0)`;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { createExpressionBuilder, filter } from './expression';
+
+describe('ExpressionBuilder', () => {
+  interface Properties {
+    type: 'park' | 'lake';
+    area: number;
+  }
+
+  const e = createExpressionBuilder<Properties>();
+
+  it('should build a match expression', () => {
+    expect(e.match(e.get('type'), [['park', 'green'], [['lake'], 'blue']], 'grey')).toEqual(
+      ['match', ['get', 'type'], 'park', 'green', ['lake'], 'blue', 'grey']
+    );
+  });
+
+  it('should wrap array outputs in a literal', () => {
+    expect(e.case([[e.has('area'), [0, 1]]], [1, 0])).toEqual(
+      ['case', ['has', 'area'], ['literal', [0, 1]], ['literal', [1, 0]]]
+    );
+  });
+
+  it('should wrap arrays of strings that are not expressions', () => {
+    expect(e.step(e.zoom(), ['Open Sans Regular'], [[10, ['Open Sans Bold']]])).toEqual(
+      ['step', ['zoom'], ['literal', ['Open Sans Regular']], 10, ['literal', ['Open Sans Bold']]]
+    );
+    expect(e.coalesce(e.get('type'), ['to-string', ['get', 'area']])).toEqual(
+      ['coalesce', ['get', 'type'], ['to-string', ['get', 'area']]]
+    );
+  });
+
+  it('should build a to-string expression', () => {
+    expect(e.toStringValue(e.get('area'))).toEqual(['to-string', ['get', 'area']]);
+  });
+
+  it('should build an interpolate expression', () => {
+    expect(e.interpolate(['linear'], e.zoom(), [[5, 1], [10, 4]])).toEqual(
+      ['interpolate', ['linear'], ['zoom'], 5, 1, 10, 4]
+    );
+  });
+
+  it('should build filters', () => {
+    expect(e.filter.all(e.filter.gt('area', 1000), e.filter.in('type', ['park', 'lake']))).toEqual(
+      ['all', ['>', ['get', 'area'], 1000], ['match', ['get', 'type'], ['park', 'lake'], true, false]]
+    );
+    expect(filter.not(filter.has('name'))).toEqual(['!', ['has', 'name']]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * A style-spec expression, T being the type of the evaluated value.
+ * This is a plain array at runtime, so it can be used anywhere mapbox-gl expects an expression.
+ */
+export interface Expression<T> extends Array<any> {
+  // Never set, only used to type-check the expressions
+  readonly __type?: T;
+}
+
+export type ExpressionValue<T> = T | Expression<T>;
+
+export type Filter = Expression<boolean>;
+
+export interface FeatureProperties {
+  [name: string]: any;
+}
+
+export type Interpolation = ['linear'] | ['exponential', number] | ['cubic-bezier', number, number, number, number];
+
+export interface FilterBuilder<P> {
+  all(...conditions: ExpressionValue<boolean>[]): Filter;
+  any(...conditions: ExpressionValue<boolean>[]): Filter;
+  not(condition: ExpressionValue<boolean>): Filter;
+  has(property: keyof P & string): Filter;
+  eq<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  neq<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  lt<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  lte<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  gt<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  gte<K extends keyof P & string>(property: K, value: P[K]): Filter;
+  in<K extends keyof P & string>(property: K, values: P[K][]): Filter;
+}
+
+export interface ExpressionBuilder<P> {
+  filter: FilterBuilder<P>;
+  get<K extends keyof P & string>(property: K): Expression<P[K]>;
+  has(property: keyof P & string): Expression<boolean>;
+  featureState<T = any>(key: string): Expression<T>;
+  id(): Expression<string | number>;
+  geometryType(): Expression<'Point' | 'LineString' | 'Polygon'>;
+  zoom(): Expression<number>;
+  /**
+   * Needed for arrays of strings, that would be evaluated as expressions otherwise
+   */
+  literal<T>(value: T): Expression<T>;
+  match<I extends string | number, O>(
+    input: ExpressionValue<I>,
+    cases: [I | I[], ExpressionValue<O>][],
+    fallback: ExpressionValue<O>
+  ): Expression<O>;
+  case<O>(branches: [ExpressionValue<boolean>, ExpressionValue<O>][], fallback: ExpressionValue<O>): Expression<O>;
+  coalesce<O>(...values: ExpressionValue<O>[]): Expression<O>;
+  interpolate<O extends number | string | number[]>(
+    interpolation: Interpolation,
+    input: ExpressionValue<number>,
+    stops: [number, ExpressionValue<O>][]
+  ): Expression<O>;
+  step<O>(input: ExpressionValue<number>, base: ExpressionValue<O>, stops: [number, ExpressionValue<O>][]): Expression<O>;
+  eq<T>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  neq<T>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  lt<T extends number | string>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  lte<T extends number | string>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  gt<T extends number | string>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  gte<T extends number | string>(a: ExpressionValue<T>, b: ExpressionValue<T>): Expression<boolean>;
+  all(...conditions: ExpressionValue<boolean>[]): Expression<boolean>;
+  any(...conditions: ExpressionValue<boolean>[]): Expression<boolean>;
+  not(condition: ExpressionValue<boolean>): Expression<boolean>;
+  add(...values: ExpressionValue<number>[]): Expression<number>;
+  sub(a: ExpressionValue<number>, b: ExpressionValue<number>): Expression<number>;
+  mul(...values: ExpressionValue<number>[]): Expression<number>;
+  div(a: ExpressionValue<number>, b: ExpressionValue<number>): Expression<number>;
+  concat(...values: ExpressionValue<any>[]): Expression<string>;
+  toNumber(...values: ExpressionValue<any>[]): Expression<number>;
+  // Not named toString, which would shadow Object.prototype.toString
+  toStringValue(value: ExpressionValue<any>): Expression<string>;
+  toBoolean(value: ExpressionValue<any>): Expression<boolean>;
+  toColor(...values: ExpressionValue<any>[]): Expression<string>;
+}
+
+/**
+ * Create an expression builder type-checked against the properties P of the features
+ *
+ * ```typescript
+ * const e = createExpressionBuilder<{ type: 'park' | 'lake', area: number }>();
+ * const color = e.match(e.get('type'), [['park', 'green'], ['lake', 'blue']], 'grey');
+ * const filter = e.filter.all(e.filter.gt('area', 1000), e.filter.in('type', ['park']));
+ * ```
+ */
+export function createExpressionBuilder<P = FeatureProperties>(): ExpressionBuilder<P> {
+  const expression = <T>(...args: any[]) => <Expression<T>>args;
+  const get = <K extends keyof P & string>(property: K) => expression<P[K]>('get', property);
+  // The arguments of match must be literals: arrays need to be wrapped, and the labels are already literals
+  const wrap = (value: any) => Array.isArray(value) && !isExpression(value) ? ['literal', value] : value;
+
+  const filter: FilterBuilder<P> = {
+    all: (...conditions) => expression('all', ...conditions),
+    any: (...conditions) => expression('any', ...conditions),
+    not: (condition) => expression('!', condition),
+    has: (property) => expression('has', property),
+    eq: (property, value) => expression('==', get(property), wrap(value)),
+    neq: (property, value) => expression('!=', get(property), wrap(value)),
+    lt: (property, value) => expression('<', get(property), value),
+    lte: (property, value) => expression('<=', get(property), value),
+    gt: (property, value) => expression('>', get(property), value),
+    gte: (property, value) => expression('>=', get(property), value),
+    // No 'in' expression in mapbox-gl 0.47
+    in: (property, values) => values.length ? expression('match', get(property), values, true, false) : expression('literal', false)
+  };
+
+  return {
+    filter,
+    get,
+    has: (property) => expression('has', property),
+    featureState: (key) => expression('feature-state', key),
+    id: () => expression('id'),
+    geometryType: () => expression('geometry-type'),
+    zoom: () => expression('zoom'),
+    literal: (value) => expression('literal', value),
+    match: (input, cases, fallback) => {
+      const args: any[] = [];
+      cases.forEach(([label, output]) => args.push(label, wrap(output)));
+      return expression('match', input, ...args, wrap(fallback));
+    },
+    case: (branches, fallback) => {
+      const args: any[] = [];
+      branches.forEach(([condition, output]) => args.push(condition, wrap(output)));
+      return expression('case', ...args, wrap(fallback));
+    },
+    coalesce: (...values) => expression('coalesce', ...values.map(wrap)),
+    interpolate: (interpolation, input, stops) => {
+      const args: any[] = [];
+      stops.forEach(([stop, output]) => args.push(stop, wrap(output)));
+      return expression('interpolate', interpolation, input, ...args);
+    },
+    step: (input, base, stops) => {
+      const args: any[] = [];
+      stops.forEach(([stop, output]) => args.push(stop, wrap(output)));
+      return expression('step', input, wrap(base), ...args);
+    },
+    eq: (a, b) => expression('==', wrap(a), wrap(b)),
+    neq: (a, b) => expression('!=', wrap(a), wrap(b)),
+    lt: (a, b) => expression('<', a, b),
+    lte: (a, b) => expression('<=', a, b),
+    gt: (a, b) => expression('>', a, b),
+    gte: (a, b) => expression('>=', a, b),
+    all: (...conditions) => expression('all', ...conditions),
+    any: (...conditions) => expression('any', ...conditions),
+    not: (condition) => expression('!', condition),
+    add: (...values) => expression('+', ...values),
+    sub: (a, b) => expression('-', a, b),
+    mul: (...values) => expression('*', ...values),
+    div: (a, b) => expression('/', a, b),
+    concat: (...values) => expression('concat', ...values),
+    toNumber: (...values) => expression('to-number', ...values),
+    toStringValue: (value) => expression('to-string', value),
+    toBoolean: (value) => expression('to-boolean', value),
+    toColor: (...values) => expression('to-color', ...values)
+  };
+}
+
+/**
+ * Expression builder for features with untyped properties
+ */
+export const expr = createExpressionBuilder();
+
+/**
+ * Filter builder for features with untyped properties
+ */
+export const filter = expr.filter;
+
+// Operators of the mapbox-gl 0.47 style-spec
+const EXPRESSION_OPERATORS = [
+  'let', 'var', 'literal', 'array', 'at', 'case', 'match', 'coalesce', 'step', 'interpolate',
+  'ln2', 'pi', 'e', 'typeof', 'string', 'number', 'boolean', 'object', 'collator',
+  'to-string', 'to-number', 'to-boolean', 'to-rgba', 'to-color', 'rgb', 'rgba',
+  'get', 'has', 'length', 'properties', 'feature-state', 'geometry-type', 'id', 'zoom', 'heatmap-density', 'line-progress',
+  '+', '*', '-', '/', '%', '^', 'sqrt', 'log10', 'ln', 'log2', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan',
+  'min', 'max', 'round', 'abs', 'ceil', 'floor', '==', '!=', '>', '<', '>=', '<=', 'all', 'any', '!',
+  'is-supported-script', 'upcase', 'downcase', 'concat', 'resolved-locale'
+];
+
+/**
+ * Arrays of strings (eg: a text-font stack) are only expressions when they start with an operator
+ */
+function isExpression(value: any[]) {
+  return typeof value[0] === 'string' && EXPRESSION_OPERATORS.indexOf(value[0]) > -1;
+}
@@ -0,0 +1,25 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { BackgroundLayout, BackgroundPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-background-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => BackgroundLayerComponent) }]
+})
+export class BackgroundLayerComponent extends LayerComponent {
+  type: 'background' = 'background';
+
+  /* Dynamic inputs */
+  @Input() layout?: BackgroundLayout;
+  @Input() paint?: BackgroundPaint;
+  @Input() backgroundColor?: BackgroundPaint['background-color'];
+  @Input() backgroundPattern?: BackgroundPaint['background-pattern'];
+  @Input() backgroundOpacity?: BackgroundPaint['background-opacity'];
+
+  protected paintInputs = {
+    backgroundColor: 'background-color',
+    backgroundPattern: 'background-pattern',
+    backgroundOpacity: 'background-opacity'
+  };
+}
@@ -0,0 +1,41 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { CircleLayout, CirclePaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-circle-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => CircleLayerComponent) }]
+})
+export class CircleLayerComponent extends LayerComponent {
+  type: 'circle' = 'circle';
+
+  /* Dynamic inputs */
+  @Input() layout?: CircleLayout;
+  @Input() paint?: CirclePaint;
+  @Input() circleRadius?: CirclePaint['circle-radius'];
+  @Input() circleColor?: CirclePaint['circle-color'];
+  @Input() circleBlur?: CirclePaint['circle-blur'];
+  @Input() circleOpacity?: CirclePaint['circle-opacity'];
+  @Input() circleTranslate?: CirclePaint['circle-translate'];
+  @Input() circleTranslateAnchor?: CirclePaint['circle-translate-anchor'];
+  @Input() circlePitchScale?: CirclePaint['circle-pitch-scale'];
+  @Input() circlePitchAlignment?: CirclePaint['circle-pitch-alignment'];
+  @Input() circleStrokeWidth?: CirclePaint['circle-stroke-width'];
+  @Input() circleStrokeColor?: CirclePaint['circle-stroke-color'];
+  @Input() circleStrokeOpacity?: CirclePaint['circle-stroke-opacity'];
+
+  protected paintInputs = {
+    circleRadius: 'circle-radius',
+    circleColor: 'circle-color',
+    circleBlur: 'circle-blur',
+    circleOpacity: 'circle-opacity',
+    circleTranslate: 'circle-translate',
+    circleTranslateAnchor: 'circle-translate-anchor',
+    circlePitchScale: 'circle-pitch-scale',
+    circlePitchAlignment: 'circle-pitch-alignment',
+    circleStrokeWidth: 'circle-stroke-width',
+    circleStrokeColor: 'circle-stroke-color',
+    circleStrokeOpacity: 'circle-stroke-opacity'
+  };
+}
@@ -0,0 +1,33 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { FillExtrusionLayout, FillExtrusionPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-fill-extrusion-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => FillExtrusionLayerComponent) }]
+})
+export class FillExtrusionLayerComponent extends LayerComponent {
+  type: 'fill-extrusion' = 'fill-extrusion';
+
+  /* Dynamic inputs */
+  @Input() layout?: FillExtrusionLayout;
+  @Input() paint?: FillExtrusionPaint;
+  @Input() fillExtrusionOpacity?: FillExtrusionPaint['fill-extrusion-opacity'];
+  @Input() fillExtrusionColor?: FillExtrusionPaint['fill-extrusion-color'];
+  @Input() fillExtrusionTranslate?: FillExtrusionPaint['fill-extrusion-translate'];
+  @Input() fillExtrusionTranslateAnchor?: FillExtrusionPaint['fill-extrusion-translate-anchor'];
+  @Input() fillExtrusionPattern?: FillExtrusionPaint['fill-extrusion-pattern'];
+  @Input() fillExtrusionHeight?: FillExtrusionPaint['fill-extrusion-height'];
+  @Input() fillExtrusionBase?: FillExtrusionPaint['fill-extrusion-base'];
+
+  protected paintInputs = {
+    fillExtrusionOpacity: 'fill-extrusion-opacity',
+    fillExtrusionColor: 'fill-extrusion-color',
+    fillExtrusionTranslate: 'fill-extrusion-translate',
+    fillExtrusionTranslateAnchor: 'fill-extrusion-translate-anchor',
+    fillExtrusionPattern: 'fill-extrusion-pattern',
+    fillExtrusionHeight: 'fill-extrusion-height',
+    fillExtrusionBase: 'fill-extrusion-base'
+  };
+}
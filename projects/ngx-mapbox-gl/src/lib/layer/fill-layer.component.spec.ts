@@ -0,0 +1,62 @@
+import { SimpleChange } from '@angular/core';
+import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { FillPaint } from 'mapbox-gl';
+import { of } from 'rxjs';
+import { MapService, SetupLayer } from '../map/map.service';
+import { FillLayerComponent } from './fill-layer.component';
+
+describe('FillLayerComponent', () => {
+  class MapServiceSpy {
+    addLayer = jasmine.createSpy('addLayer');
+    removeLayer = jasmine.createSpy('removeLayer');
+    getTemplateLayerBefore = jasmine.createSpy('getTemplateLayerBefore');
+    layerDependenciesReady$ = jasmine.createSpy('layerDependenciesReady$').and.returnValue(of(true));
+    setLayerPaintProperty = jasmine.createSpy('setLayerPaintProperty');
+    mapLoaded$ = of(undefined);
+  }
+
+  let msSpy: MapServiceSpy;
+  let component: FillLayerComponent;
+  let fixture: ComponentFixture<FillLayerComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [FillLayerComponent]
+    })
+      .overrideComponent(FillLayerComponent, {
+        set: {
+          providers: [
+            { provide: MapService, useClass: MapServiceSpy }
+          ]
+        }
+      })
+      .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(FillLayerComponent);
+    component = fixture.componentInstance;
+    msSpy = <any>fixture.debugElement.injector.get<MapService>(MapService);
+    component.id = 'layerId';
+  });
+
+  it('should init a fill layer with the paint property inputs', (done: DoneFn) => {
+    component.paint = { 'fill-color': 'green', 'fill-opacity': 0.5 };
+    component.fillColor = 'red';
+    msSpy.addLayer.and.callFake((options: SetupLayer) => {
+      expect(options.layerOptions.type).toEqual('fill');
+      expect(<FillPaint>options.layerOptions.paint).toEqual({ 'fill-color': 'red', 'fill-opacity': 0.5 });
+      done();
+    });
+    fixture.detectChanges();
+  });
+
+  it('should only update the changed paint property', () => {
+    component.fillOpacity = 0.5;
+    fixture.detectChanges();
+    component.ngOnChanges({
+      fillOpacity: new SimpleChange(0.5, 0.8, false)
+    });
+    expect(msSpy.setLayerPaintProperty).toHaveBeenCalledWith(component.id, 'fill-opacity', 0.8);
+  });
+});
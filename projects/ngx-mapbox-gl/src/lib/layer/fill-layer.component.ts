@@ -0,0 +1,33 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { FillLayout, FillPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-fill-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => FillLayerComponent) }]
+})
+export class FillLayerComponent extends LayerComponent {
+  type: 'fill' = 'fill';
+
+  /* Dynamic inputs */
+  @Input() layout?: FillLayout;
+  @Input() paint?: FillPaint;
+  @Input() fillAntialias?: FillPaint['fill-antialias'];
+  @Input() fillOpacity?: FillPaint['fill-opacity'];
+  @Input() fillColor?: FillPaint['fill-color'];
+  @Input() fillOutlineColor?: FillPaint['fill-outline-color'];
+  @Input() fillTranslate?: FillPaint['fill-translate'];
+  @Input() fillTranslateAnchor?: FillPaint['fill-translate-anchor'];
+  @Input() fillPattern?: FillPaint['fill-pattern'];
+
+  protected paintInputs = {
+    fillAntialias: 'fill-antialias',
+    fillOpacity: 'fill-opacity',
+    fillColor: 'fill-color',
+    fillOutlineColor: 'fill-outline-color',
+    fillTranslate: 'fill-translate',
+    fillTranslateAnchor: 'fill-translate-anchor',
+    fillPattern: 'fill-pattern'
+  };
+}
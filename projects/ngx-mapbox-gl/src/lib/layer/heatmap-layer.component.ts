@@ -0,0 +1,29 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { HeatmapLayout, HeatmapPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-heatmap-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => HeatmapLayerComponent) }]
+})
+export class HeatmapLayerComponent extends LayerComponent {
+  type: 'heatmap' = 'heatmap';
+
+  /* Dynamic inputs */
+  @Input() layout?: HeatmapLayout;
+  @Input() paint?: HeatmapPaint;
+  @Input() heatmapRadius?: HeatmapPaint['heatmap-radius'];
+  @Input() heatmapWeight?: HeatmapPaint['heatmap-weight'];
+  @Input() heatmapIntensity?: HeatmapPaint['heatmap-intensity'];
+  @Input() heatmapColor?: HeatmapPaint['heatmap-color'];
+  @Input() heatmapOpacity?: HeatmapPaint['heatmap-opacity'];
+
+  protected paintInputs = {
+    heatmapRadius: 'heatmap-radius',
+    heatmapWeight: 'heatmap-weight',
+    heatmapIntensity: 'heatmap-intensity',
+    heatmapColor: 'heatmap-color',
+    heatmapOpacity: 'heatmap-opacity'
+  };
+}
@@ -0,0 +1,31 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { HillshadeLayout, HillshadePaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-hillshade-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => HillshadeLayerComponent) }]
+})
+export class HillshadeLayerComponent extends LayerComponent {
+  type: 'hillshade' = 'hillshade';
+
+  /* Dynamic inputs */
+  @Input() layout?: HillshadeLayout;
+  @Input() paint?: HillshadePaint;
+  @Input() hillshadeIlluminationDirection?: HillshadePaint['hillshade-illumination-direction'];
+  @Input() hillshadeIlluminationAnchor?: HillshadePaint['hillshade-illumination-anchor'];
+  @Input() hillshadeExaggeration?: HillshadePaint['hillshade-exaggeration'];
+  @Input() hillshadeShadowColor?: HillshadePaint['hillshade-shadow-color'];
+  @Input() hillshadeHighlightColor?: HillshadePaint['hillshade-highlight-color'];
+  @Input() hillshadeAccentColor?: HillshadePaint['hillshade-accent-color'];
+
+  protected paintInputs = {
+    hillshadeIlluminationDirection: 'hillshade-illumination-direction',
+    hillshadeIlluminationAnchor: 'hillshade-illumination-anchor',
+    hillshadeExaggeration: 'hillshade-exaggeration',
+    hillshadeShadowColor: 'hillshade-shadow-color',
+    hillshadeHighlightColor: 'hillshade-highlight-color',
+    hillshadeAccentColor: 'hillshade-accent-color'
+  };
+}
@@ -0,0 +1,60 @@
+import { ChangeDetectionStrategy, Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { MapService } from '../map/map.service';
+import { LayerComponent } from './layer.component';
+
+/**
+ * Group of mgl-layer sharing the same visibility, opacity and position in the layer stack
+ */
+@Component({
+  selector: 'mgl-layer-group',
+  template: '<ng-content></ng-content>',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LayerGroupComponent implements OnChanges {
+  /* Dynamic inputs */
+  @Input() visible = true;
+  /**
+   * Multiply the opacity of the layers (opacities defined with an expression or a function are left untouched)
+   */
+  @Input() opacity = 1;
+  /**
+   * Default `before` of the layers, the whole group is moved when it changes
+   */
+  @Input() before?: string;
+
+  private layers: LayerComponent[] = [];
+
+  constructor(
+    private MapService: MapService
+  ) { }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (
+      changes.visible && !changes.visible.isFirstChange() ||
+      changes.opacity && !changes.opacity.isFirstChange()
+    ) {
+      this.layers.forEach((layer) => layer.applyGroupProperties());
+    }
+    if (changes.before && !changes.before.isFirstChange()) {
+      this.moveLayers(changes.before.currentValue);
+    }
+  }
+
+  addLayer(layer: LayerComponent) {
+    if (this.layers.indexOf(layer) === -1) {
+      this.layers.push(layer);
+    }
+  }
+
+  removeLayer(layer: LayerComponent) {
+    this.layers = this.layers.filter((l) => l !== layer);
+  }
+
+  private moveLayers(before?: string) {
+    const styleLayerIds = this.MapService.mapInstance.getStyle().layers!.map((layer) => layer.id);
+    // Move from the bottom to the top of the stack to keep the order of the group
+    [...this.layers]
+      .sort((a, b) => styleLayerIds.indexOf(a.id) - styleLayerIds.indexOf(b.id))
+      .forEach((layer) => this.MapService.setLayerBefore(layer.id, before));
+  }
+}
@@ -1,17 +1,27 @@
 import { SimpleChange } from '@angular/core';
 import { async, ComponentFixture, TestBed } from '@angular/core/testing';
 import { BackgroundPaint } from 'mapbox-gl';
-import { of } from 'rxjs';
+import { EMPTY, of, Subject } from 'rxjs';
 import { MapService, SetupLayer } from '../map/map.service';
+import { LayerGroupComponent } from './layer-group.component';
 import { LayerComponent } from './layer.component';
 
 describe('LayerComponent', () => {
   class MapServiceSpy {
     addLayer = jasmine.createSpy('addLayer');
     removeLayer = jasmine.createSpy('removeLayer');
-    setAllLayerPaintProperty = jasmine.createSpy('setAllPaintProperty');
+    getTemplateLayerBefore = jasmine.createSpy('getTemplateLayerBefore');
+    layerDependenciesReady$ = jasmine.createSpy('layerDependenciesReady$').and.returnValue(of(true));
+    setLayerPaintProperty = jasmine.createSpy('setLayerPaintProperty');
+    setLayerLayoutProperty = jasmine.createSpy('setLayerLayoutProperty');
+    setLayerFilter = jasmine.createSpy('setLayerFilter');
+    setLayerBefore = jasmine.createSpy('setLayerBefore');
+    setFeatureState = jasmine.createSpy('setFeatureState');
+    removeFeatureState = jasmine.createSpy('removeFeatureState');
+    changeCanvasCursor = jasmine.createSpy('changeCanvasCursor');
+    on$ = jasmine.createSpy('on$').and.returnValue(EMPTY);
     mapLoaded$ = of(undefined);
-    mapInstance = new class { on() { } off() { } };
+    mapInstance = new class { getLayer = jasmine.createSpy('getLayer').and.returnValue({}); on() { } off() { } };
   }
 
   let msSpy: MapServiceSpy;
@@ -40,6 +50,11 @@ describe('LayerComponent', () => {
   });
 
   describe('Init/Destroy tests', () => {
+    it('should create', () => {
+      expect(component).toBeTruthy();
+      expect(component.click).toBeDefined();
+    });
+
     it('should init with custom inputs', (done: DoneFn) => {
       component.paint = { 'background-color': 'green' };
       msSpy.addLayer.and.callFake((options: SetupLayer) => {
@@ -57,6 +72,40 @@ describe('LayerComponent', () => {
       expect(msSpy.removeLayer).toHaveBeenCalledWith(component.id);
     });
 
+    it('should be added before the next layer of the template', (done: DoneFn) => {
+      msSpy.getTemplateLayerBefore.and.returnValue('nextLayerId');
+      msSpy.addLayer.and.callFake((_options: SetupLayer, before: string) => {
+        expect(before).toEqual('nextLayerId');
+        done();
+      });
+      fixture.detectChanges();
+    });
+
+    it('should accept a layer component as before', (done: DoneFn) => {
+      const beforeLayer = new LayerComponent(<any>msSpy, <any>null, <any>null);
+      beforeLayer.id = 'beforeLayerId';
+      component.before = beforeLayer;
+      msSpy.addLayer.and.callFake((_options: SetupLayer, before: string) => {
+        expect(before).toEqual('beforeLayerId');
+        done();
+      });
+      fixture.detectChanges();
+    });
+
+    it('should fall back on the template position when the before layer is not on the map', (done: DoneFn) => {
+      const beforeLayer = new LayerComponent(<any>msSpy, <any>null, <any>null);
+      beforeLayer.id = 'beforeLayerId';
+      component.before = beforeLayer;
+      msSpy.mapInstance.getLayer.and.returnValue(undefined);
+      msSpy.getTemplateLayerBefore.and.returnValue('nextLayerId');
+      msSpy.addLayer.and.callFake((_options: SetupLayer, before: string) => {
+        expect(msSpy.mapInstance.getLayer).toHaveBeenCalledWith('beforeLayerId');
+        expect(before).toEqual('nextLayerId');
+        done();
+      });
+      fixture.detectChanges();
+    });
+
     it('should not remove layer on destroy if not added', () => {
       component.ngOnDestroy();
       expect(msSpy.removeLayer).not.toHaveBeenCalled();
@@ -64,17 +113,131 @@ describe('LayerComponent', () => {
   });
 
   describe('Change tests', () => {
-    it('should update paint', () => {
-      component.id = 'layerId';
+    it('should only update changed paint properties', () => {
       component.paint = {
         'background-color': 'green',
         'background-opacity': 0.5
       };
       fixture.detectChanges();
+      const previousPaint = component.paint;
+      component.paint = {
+        'background-color': 'red',
+        'background-opacity': 0.5
+      };
       component.ngOnChanges({
-        paint: new SimpleChange(null, component.paint, false)
+        paint: new SimpleChange(previousPaint, component.paint, false)
       });
-      expect(msSpy.setAllLayerPaintProperty).toHaveBeenCalledWith(component.id, component.paint);
+      expect(msSpy.setLayerPaintProperty).toHaveBeenCalledTimes(1);
+      expect(msSpy.setLayerPaintProperty).toHaveBeenCalledWith(component.id, 'background-color', 'red');
+    });
+
+    it('should reset removed paint properties', () => {
+      component.paint = {
+        'background-color': 'green',
+        'background-opacity': 0.5
+      };
+      fixture.detectChanges();
+      const previousPaint = component.paint;
+      component.paint = {
+        'background-color': 'green'
+      };
+      component.ngOnChanges({
+        paint: new SimpleChange(previousPaint, component.paint, false)
+      });
+      expect(msSpy.setLayerPaintProperty).toHaveBeenCalledTimes(1);
+      expect(msSpy.setLayerPaintProperty).toHaveBeenCalledWith(component.id, 'background-opacity', undefined);
+    });
+
+    it('should not update an identical filter', () => {
+      component.filter = ['==', 'name', 'foo'];
+      fixture.detectChanges();
+      component.ngOnChanges({
+        filter: new SimpleChange(component.filter, ['==', 'name', 'foo'], false)
+      });
+      expect(msSpy.setLayerFilter).not.toHaveBeenCalled();
+    });
+
+    it('should move the layer on top when its before is unset', () => {
+      component.before = 'beforeId';
+      fixture.detectChanges();
+      component.before = undefined;
+      component.ngOnChanges({
+        before: new SimpleChange('beforeId', undefined, false)
+      });
+      expect(msSpy.setLayerBefore).toHaveBeenCalledWith(component.id, undefined);
+    });
+
+    it('should keep the layout in sync when the visibility is set', () => {
+      component.layout = { visibility: 'visible' };
+      fixture.detectChanges();
+      component.setVisibility('none');
+      expect(component.layout).toEqual({ visibility: 'none' });
+      expect(msSpy.setLayerLayoutProperty).toHaveBeenCalledWith(component.id, 'visibility', 'none');
+    });
+  });
+
+  describe('Interaction tests', () => {
+    it('should only listen to the layer events of the bound outputs', () => {
+      fixture.detectChanges();
+      expect(msSpy.on$).not.toHaveBeenCalledWith('click', jasmine.anything());
+      const sub = component.click.subscribe();
+      expect(msSpy.on$).toHaveBeenCalledWith('click', { layerId: component.id });
+      sub.unsubscribe();
+    });
+
+    it('should set the hover feature state on hovered features', () => {
+      const mouseMove = new Subject<any>();
+      msSpy.on$.and.callFake((eventName: string) => eventName === 'mousemove' ? mouseMove : EMPTY);
+      const hovered: any[] = [];
+      component.hoveredFeatureChange.subscribe((feature: any) => hovered.push(feature));
+      component.source = 'sourceId';
+      component.hoverable = true;
+      fixture.detectChanges();
+      mouseMove.next({ features: [{ id: 1 }] });
+      mouseMove.next({ features: [{ id: 1 }] });
+      mouseMove.next({ features: [{ id: 2 }] });
+      expect(msSpy.setFeatureState).toHaveBeenCalledWith({ source: 'sourceId', sourceLayer: undefined, id: 1 }, { hover: true });
+      expect(msSpy.removeFeatureState).toHaveBeenCalledWith({ source: 'sourceId', sourceLayer: undefined, id: 1 }, 'hover');
+      expect(msSpy.setFeatureState).toHaveBeenCalledWith({ source: 'sourceId', sourceLayer: undefined, id: 2 }, { hover: true });
+      expect(hovered).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+  });
+
+  describe('Layer group tests', () => {
+    it('should inherit the group properties', (done: DoneFn) => {
+      const group = {
+        visible: false,
+        opacity: 0.5,
+        before: 'groupBefore',
+        addLayer: jasmine.createSpy('addLayer'),
+        removeLayer: jasmine.createSpy('removeLayer')
+      };
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        declarations: [LayerComponent]
+      })
+        .overrideComponent(LayerComponent, {
+          set: {
+            providers: [
+              { provide: MapService, useClass: MapServiceSpy },
+              { provide: LayerGroupComponent, useValue: group }
+            ]
+          }
+        });
+      fixture = TestBed.createComponent(LayerComponent);
+      component = fixture.componentInstance;
+      msSpy = <any>fixture.debugElement.injector.get<MapService>(MapService);
+      component.id = 'layerId';
+      component.type = 'background';
+      component.paint = { 'background-opacity': 0.5 };
+      msSpy.addLayer.and.callFake((options: SetupLayer, before: string) => {
+        expect(options.layerOptions.layout).toEqual({ visibility: 'none' });
+        expect((<BackgroundPaint>options.layerOptions.paint)['background-opacity']).toEqual(0.25);
+        expect(before).toEqual('groupBefore');
+        done();
+      });
+      fixture.detectChanges();
+      expect(group.addLayer).toHaveBeenCalledWith(component);
     });
   });
 });
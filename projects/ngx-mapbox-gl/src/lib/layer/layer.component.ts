@@ -1,11 +1,15 @@
 import {
   Component,
+  ElementRef,
   EventEmitter,
   Input,
+  NgZone,
   OnChanges,
   OnDestroy,
   OnInit,
+  Optional,
   Output,
+  SimpleChange,
   SimpleChanges
 } from '@angular/core';
 import {
@@ -19,12 +23,18 @@ import {
   FillPaint,
   GeoJSONSource,
   GeoJSONSourceRaw,
+  HeatmapLayout,
+  HeatmapPaint,
+  HillshadeLayout,
+  HillshadePaint,
   ImageSource,
   Layer,
   LineLayout,
   LinePaint,
   MapMouseEvent,
+  MapTouchEvent,
   RasterLayout,
+  RasterDemSource,
   RasterPaint,
   RasterSource,
   SymbolLayout,
@@ -32,9 +42,24 @@ import {
   VectorSource,
   VideoSource
 } from 'mapbox-gl';
-import { fromEvent, Subscription } from 'rxjs';
-import { filter } from 'rxjs/operators';
+import { AsyncSubject, defer, Observable, Subscription } from 'rxjs';
+import { filter, switchMap } from 'rxjs/operators';
 import { MapService } from '../map/map.service';
+import { FeatureIdentifier, LayerDependencies, MapboxEventName } from '../map/map.types';
+import { LayerGroupComponent } from './layer-group.component';
+
+const OPACITY_PROPERTIES: { [type: string]: string[] } = {
+  'background': ['background-opacity'],
+  'fill': ['fill-opacity'],
+  'fill-extrusion': ['fill-extrusion-opacity'],
+  'line': ['line-opacity'],
+  'symbol': ['icon-opacity', 'text-opacity'],
+  'raster': ['raster-opacity'],
+  'circle': ['circle-opacity', 'circle-stroke-opacity'],
+  'heatmap': ['heatmap-opacity']
+};
+
+const IMAGE_PROPERTIES = ['icon-image', 'background-pattern', 'fill-pattern', 'fill-extrusion-pattern', 'line-pattern'];
 
 @Component({
   selector: 'mgl-layer',
@@ -43,40 +68,104 @@ import { MapService } from '../map/map.service';
 export class LayerComponent implements OnInit, OnDestroy, OnChanges, Layer {
   /* Init inputs */
   @Input() id: string;
-  @Input() source?: string | VectorSource | RasterSource | GeoJSONSource | ImageSource | VideoSource | GeoJSONSourceRaw;
-  @Input() type: 'symbol' | 'fill' | 'line' | 'circle' | 'fill-extrusion' | 'raster' | 'background';
+  @Input() source?: string |
+    VectorSource |
+    RasterSource |
+    RasterDemSource |
+    GeoJSONSource |
+    ImageSource |
+    VideoSource |
+    GeoJSONSourceRaw;
+  @Input() type: 'symbol' | 'fill' | 'line' | 'circle' | 'fill-extrusion' | 'raster' | 'background' | 'heatmap' | 'hillshade';
   @Input() metadata?: any;
   @Input() sourceLayer?: string;
+  /**
+   * Set the `hover` feature state on the feature under the mouse (features need an id)
+   */
+  @Input() hoverable?: boolean;
+  /**
+   * Set the `selected` feature state on clicked features (features need an id)
+   */
+  @Input() selectable?: boolean;
+  /**
+   * Modifier key to hold to add/remove a feature to/from the selection
+   */
+  @Input() multiSelectKey: 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey' = 'shiftKey';
 
   /* Dynamic inputs */
   @Input() filter?: any[];
-  @Input() layout?: BackgroundLayout | FillLayout | FillExtrusionLayout | LineLayout | SymbolLayout | RasterLayout | CircleLayout;
-  @Input() paint?: BackgroundPaint | FillPaint | FillExtrusionPaint | LinePaint | SymbolPaint | RasterPaint | CirclePaint;
-  @Input() before?: string;
+  @Input() layout?: BackgroundLayout |
+    FillLayout |
+    FillExtrusionLayout |
+    LineLayout |
+    SymbolLayout |
+    RasterLayout |
+    CircleLayout |
+    HeatmapLayout |
+    HillshadeLayout;
+  @Input() paint?: BackgroundPaint |
+    FillPaint |
+    FillExtrusionPaint |
+    LinePaint |
+    SymbolPaint |
+    RasterPaint |
+    CirclePaint |
+    HeatmapPaint |
+    HillshadePaint;
+  @Input() before?: string | LayerComponent;
   @Input() minzoom?: number;
   @Input() maxzoom?: number;
 
-  @Output() click = new EventEmitter<MapMouseEvent>();
-  @Output() mouseEnter = new EventEmitter<MapMouseEvent>();
-  @Output() mouseLeave = new EventEmitter<MapMouseEvent>();
-  @Output() mouseMove = new EventEmitter<MapMouseEvent>();
+  // The map listeners are only attached while these outputs are bound
+  @Output() click = this.layerEvent$<MapMouseEvent>('click');
+  @Output() dblClick = this.layerEvent$<MapMouseEvent>('dblclick');
+  @Output() contextMenu = this.layerEvent$<MapMouseEvent>('contextmenu');
+  @Output() mouseDown = this.layerEvent$<MapMouseEvent>('mousedown');
+  @Output() mouseUp = this.layerEvent$<MapMouseEvent>('mouseup');
+  @Output() mouseEnter = this.layerEvent$<MapMouseEvent>('mouseenter');
+  @Output() mouseLeave = this.layerEvent$<MapMouseEvent>('mouseleave');
+  @Output() mouseMove = this.layerEvent$<MapMouseEvent>('mousemove');
+  @Output() touchStart = this.layerEvent$<MapTouchEvent>('touchstart');
+  @Output() touchEnd = this.layerEvent$<MapTouchEvent>('touchend');
+  @Output() touchCancel = this.layerEvent$<MapTouchEvent>('touchcancel');
+  @Output() hoveredFeatureChange = new EventEmitter<GeoJSON.Feature<GeoJSON.GeometryObject> | undefined>();
+  @Output() selectedFeaturesChange = new EventEmitter<GeoJSON.Feature<GeoJSON.GeometryObject>[]>();
+
+  /**
+   * Paint property inputs of the typed layer components (input name -> paint property name).
+   * They take precedence over the same property in `paint` and are updated one by one.
+   */
+  protected paintInputs: { [inputName: string]: string } = {};
 
   private layerAdded = false;
-  private sub: Subscription;
+  private interactionsBound = false;
+  private hoveredFeature?: GeoJSON.Feature<GeoJSON.GeometryObject>;
+  private selectedFeatures: GeoJSON.Feature<GeoJSON.GeometryObject>[] = [];
+  private sub = new Subscription();
+  // Completes once the id is known
+  private initialized = new AsyncSubject<void>();
 
   constructor(
-    private MapService: MapService
+    private MapService: MapService,
+    private zone: NgZone,
+    private ElementRef: ElementRef,
+    @Optional() private LayerGroupComponent?: LayerGroupComponent
   ) { }
 
   ngOnInit() {
-    this.MapService.mapLoaded$.subscribe(() => {
-      this.init(true);
-      this.sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getLayer(this.id))
-      ).subscribe(() => {
-        this.init(false);
-      });
-    });
+    this.initialized.next(undefined);
+    this.initialized.complete();
+    this.sub.add(this.MapService.mapLoaded$.pipe(
+      switchMap(() => this.MapService.layerDependenciesReady$(this.getDependencies()))
+    ).subscribe((ready) => {
+      if (ready && !this.layerAdded) {
+        this.init();
+        this.bindInteractions();
+      } else if (!ready && this.layerAdded && !this.MapService.mapInstance.getLayer(this.id)) {
+        // Removed along with its source, it will be added back with the source
+        this.layerAdded = false;
+      }
+    }));
   }
 
   ngOnChanges(changes: SimpleChanges) {
@@ -84,35 +173,72 @@ export class LayerComponent implements OnInit, OnDestroy, OnChanges, Layer {
       return;
     }
     if (changes.paint && !changes.paint.isFirstChange()) {
-      this.MapService.setAllLayerPaintProperty(this.id, changes.paint.currentValue!);
+      const properties = this.diffProperties(changes.paint.previousValue, changes.paint.currentValue);
+      Object.keys(properties)
+        .filter((name) => !this.isPaintInputSet(name))
+        .forEach((name) => this.setPaintProperty(name, properties[name]));
     }
+    Object.keys(this.paintInputs)
+      .filter((inputName) => hasChanged(changes[inputName]))
+      .forEach((inputName) => {
+        const name = this.paintInputs[inputName];
+        const value = changes[inputName].currentValue;
+        // Fallback on the paint input when the property input is unset
+        this.setPaintProperty(name, value !== undefined ? value : (<any>this.paint || {})[name]);
+      });
     if (changes.layout && !changes.layout.isFirstChange()) {
-      this.MapService.setAllLayerLayoutProperty(this.id, changes.layout.currentValue!);
+      const properties = this.diffProperties(changes.layout.previousValue, changes.layout.currentValue);
+      Object.keys(properties)
+        .forEach((name) => this.setLayoutProperty(name, properties[name]));
     }
-    if (changes.filter && !changes.filter.isFirstChange()) {
+    if (hasChanged(changes.filter)) {
       this.MapService.setLayerFilter(this.id, changes.filter.currentValue!);
     }
     if (changes.before && !changes.before.isFirstChange()) {
-      this.MapService.setLayerBefore(this.id, changes.before.currentValue!);
+      this.MapService.setLayerBefore(this.id, this.getBefore());
     }
-    if (
-      changes.minzoom && !changes.minzoom.isFirstChange() ||
-      changes.maxzoom && !changes.maxzoom.isFirstChange()
-    ) {
+    if (hasChanged(changes.minzoom) || hasChanged(changes.maxzoom)) {
       this.MapService.setLayerZoomRange(this.id, this.minzoom, this.maxzoom);
     }
   }
 
   ngOnDestroy() {
+    this.sub.unsubscribe();
+    if (this.LayerGroupComponent) {
+      this.LayerGroupComponent.removeLayer(this);
+    }
     if (this.layerAdded) {
+      this.setHoveredFeature(undefined, false);
+      this.setSelectedFeatures([], false);
       this.MapService.removeLayer(this.id);
     }
-    if (this.sub) {
-      this.sub.unsubscribe();
+  }
+
+  /**
+   * Show or hide the layer, layout.visibility is updated accordingly (a hidden mgl-layer-group still hides it)
+   */
+  setVisibility(visibility: 'visible' | 'none') {
+    if (this.layout && (<any>this.layout).visibility === visibility) {
+      return;
+    }
+    this.layout = <any>{ ...(<any>this.layout), visibility };
+    if (this.layerAdded) {
+      this.setLayoutProperty('visibility', visibility);
+    }
+  }
+
+  /**
+   * Apply the visibility and opacity of the parent mgl-layer-group
+   */
+  applyGroupProperties() {
+    if (!this.layerAdded) {
+      return;
     }
+    this.setLayoutProperty('visibility', this.layout ? (<any>this.layout).visibility : undefined);
+    (OPACITY_PROPERTIES[this.type] || []).forEach((name) => this.setPaintProperty(name, this.getPaintValue(name)));
   }
 
-  private init(bindEvents: boolean) {
+  private init() {
     const layer = {
       layerOptions: {
         id: this.id,
@@ -123,17 +249,229 @@ export class LayerComponent implements OnInit, OnDestroy, OnChanges, Layer {
         minzoom: this.minzoom,
         maxzoom: this.maxzoom,
         filter: this.filter,
-        layout: this.layout,
-        paint: this.paint
+        layout: this.getLayout(),
+        paint: this.getPaint()
       },
-      layerEvents: {
-        click: this.click,
-        mouseEnter: this.mouseEnter,
-        mouseLeave: this.mouseLeave,
-        mouseMove: this.mouseMove
-      }
+      element: this.ElementRef.nativeElement
     };
-    this.MapService.addLayer(layer, bindEvents, this.before);
+    this.MapService.addLayer(layer, this.getBefore());
     this.layerAdded = true;
+    if (this.LayerGroupComponent) {
+      this.LayerGroupComponent.addLayer(this);
+    }
+  }
+
+  private setPaintProperty(name: string, value: any) {
+    this.MapService.setLayerPaintProperty(this.id, name, this.resolvePaintValue(name, value));
+  }
+
+  private setLayoutProperty(name: string, value: any) {
+    this.MapService.setLayerLayoutProperty(this.id, name, this.resolveLayoutValue(name, value));
+  }
+
+  private resolvePaintValue(name: string, value: any) {
+    const group = this.LayerGroupComponent;
+    if (
+      !group || group.opacity === 1 ||
+      (OPACITY_PROPERTIES[this.type] || []).indexOf(name) === -1 ||
+      value !== undefined && typeof value !== 'number'
+    ) {
+      return value;
+    }
+    return (value === undefined ? 1 : value) * group.opacity;
+  }
+
+  private resolveLayoutValue(name: string, value: any) {
+    if (name === 'visibility' && this.LayerGroupComponent && !this.LayerGroupComponent.visible) {
+      return 'none';
+    }
+    return value;
+  }
+
+  private getBefore() {
+    const before = typeof this.before === 'string' ? this.before : this.before ? this.before.id : undefined;
+    // A before layer which is not on the map yet would make mapbox fail to add this one
+    if (before && this.MapService.mapInstance.getLayer(before)) {
+      return before;
+    }
+    return this.MapService.getTemplateLayerBefore(this.ElementRef.nativeElement) ||
+      (this.LayerGroupComponent ? this.LayerGroupComponent.before : undefined);
+  }
+
+  private getPaintValue(name: string) {
+    const inputName = Object.keys(this.paintInputs).find((n) => this.paintInputs[n] === name);
+    const value = inputName ? (<any>this)[inputName] : undefined;
+    return value !== undefined ? value : (<any>this.paint || {})[name];
+  }
+
+  private getLayout() {
+    const visibility = this.resolveLayoutValue('visibility', this.layout ? (<any>this.layout).visibility : undefined);
+    if (visibility === (this.layout ? (<any>this.layout).visibility : undefined)) {
+      return this.layout;
+    }
+    return { ...(<any>this.layout), visibility };
+  }
+
+  /**
+   * Return the properties to update, removed ones are set to undefined (reset to their default value)
+   */
+  private diffProperties(previous: { [name: string]: any } = {}, current: { [name: string]: any } = {}) {
+    const properties: { [name: string]: any } = {};
+    Object.keys(current)
+      .filter((name) => !isSameValue(previous[name], current[name]))
+      .forEach((name) => properties[name] = current[name]);
+    Object.keys(previous)
+      .filter((name) => !current.hasOwnProperty(name))
+      .forEach((name) => properties[name] = undefined);
+    return properties;
+  }
+
+  private isPaintInputSet(name: string) {
+    return Object.keys(this.paintInputs)
+      .some((inputName) => this.paintInputs[inputName] === name && (<any>this)[inputName] !== undefined);
+  }
+
+  private getPaint() {
+    const names = [
+      ...Object.keys(this.paintInputs)
+        .filter((inputName) => (<any>this)[inputName] !== undefined)
+        .map((inputName) => this.paintInputs[inputName]),
+      ...(this.LayerGroupComponent ? OPACITY_PROPERTIES[this.type] || [] : [])
+    ];
+    if (!names.length) {
+      return this.paint;
+    }
+    const paint: { [property: string]: any } = { ...(<any>this.paint) };
+    names.forEach((name) => {
+      const value = this.resolvePaintValue(name, this.getPaintValue(name));
+      if (value !== undefined) {
+        paint[name] = value;
+      }
+    });
+    return paint;
+  }
+
+  private getDependencies(): LayerDependencies {
+    const properties: { [name: string]: any } = { ...(<any>this.getLayout()), ...(<any>this.getPaint()) };
+    return {
+      // An inline source is added with the layer
+      sourceId: typeof this.source === 'string' ? this.source : undefined,
+      // Only the static image ids can be known in advance (no token nor expression)
+      imageIds: IMAGE_PROPERTIES
+        .map((name) => properties[name])
+        .filter((imageId) => typeof imageId === 'string' && imageId.indexOf('{') === -1)
+    };
+  }
+
+  // Deferred as the outputs are initialized before the other fields
+  private layerEvent$<T>(eventName: MapboxEventName): Observable<T> {
+    return defer(() => this.initialized).pipe(
+      switchMap(() => <Observable<any>>this.MapService.on$(eventName, { layerId: this.id }))
+    );
+  }
+
+  private bindInteractions() {
+    if (this.interactionsBound) {
+      return;
+    }
+    this.interactionsBound = true;
+    if (this.hoverable) {
+      this.sub.add(this.MapService.on$('mousemove', { layerId: this.id, outsideAngular: true }).subscribe((evt) => {
+        const features: GeoJSON.Feature<GeoJSON.GeometryObject>[] | undefined = (<any>evt).features;
+        const feature = features && features[0];
+        if (!feature || !this.hoveredFeature || feature.id !== this.hoveredFeature.id) {
+          this.setHoveredFeature(feature);
+        }
+      }));
+      this.sub.add(this.MapService.on$('mouseleave', { layerId: this.id, outsideAngular: true }).subscribe(() => {
+        this.setHoveredFeature(undefined);
+      }));
+    }
+    if (this.selectable) {
+      this.sub.add(this.MapService.on$('click', { outsideAngular: true }).subscribe((evt) => {
+        const multiSelect = !!evt.originalEvent && evt.originalEvent[this.multiSelectKey];
+        const feature = this.MapService.queryRenderedFeatures(evt.point, { layers: [this.id] })[0];
+        if (!feature) {
+          if (!multiSelect && this.selectedFeatures.length) {
+            this.setSelectedFeatures([]);
+          }
+          return;
+        }
+        const isSelected = this.selectedFeatures.some((f) => f.id === feature.id);
+        if (multiSelect) {
+          this.setSelectedFeatures(isSelected ?
+            this.selectedFeatures.filter((f) => f.id !== feature.id) :
+            [...this.selectedFeatures, feature]
+          );
+        } else if (!isSelected || this.selectedFeatures.length > 1) {
+          this.setSelectedFeatures([feature]);
+        }
+      }));
+    }
+    if (this.hoverable || this.selectable) {
+      // Feature ids are not stable across data updates
+      this.sub.add(this.MapService.on$('sourcedata', { outsideAngular: true }).pipe(
+        filter((evt: any) => evt.sourceId === this.getSourceId() && evt.sourceDataType === 'content')
+      ).subscribe(() => {
+        if (this.hoveredFeature) {
+          this.setHoveredFeature(undefined);
+        }
+        if (this.selectedFeatures.length) {
+          this.setSelectedFeatures([]);
+        }
+      }));
+    }
   }
+
+  private setHoveredFeature(feature: GeoJSON.Feature<GeoJSON.GeometryObject> | undefined, emit = true) {
+    if (!feature && !this.hoveredFeature) {
+      return;
+    }
+    if (this.hoveredFeature && this.hoveredFeature.id !== undefined) {
+      this.MapService.removeFeatureState(this.getFeatureIdentifier(this.hoveredFeature), 'hover');
+    }
+    if (feature && feature.id !== undefined) {
+      this.MapService.setFeatureState(this.getFeatureIdentifier(feature), { hover: true });
+    }
+    this.hoveredFeature = feature;
+    if (emit) {
+      this.MapService.changeCanvasCursor(feature ? 'pointer' : '');
+      this.zone.run(() => this.hoveredFeatureChange.emit(feature));
+    }
+  }
+
+  private setSelectedFeatures(features: GeoJSON.Feature<GeoJSON.GeometryObject>[], emit = true) {
+    this.selectedFeatures
+      .filter((f) => f.id !== undefined && !features.some((feature) => feature.id === f.id))
+      .forEach((f) => this.MapService.removeFeatureState(this.getFeatureIdentifier(f), 'selected'));
+    features
+      .filter((f) => f.id !== undefined)
+      .forEach((f) => this.MapService.setFeatureState(this.getFeatureIdentifier(f), { selected: true }));
+    this.selectedFeatures = features;
+    if (emit) {
+      this.zone.run(() => this.selectedFeaturesChange.emit(features));
+    }
+  }
+
+  private getFeatureIdentifier(feature: GeoJSON.Feature<GeoJSON.GeometryObject>): FeatureIdentifier {
+    return {
+      source: this.getSourceId(),
+      sourceLayer: this.sourceLayer,
+      id: feature.id!
+    };
+  }
+
+  private getSourceId() {
+    // An inline source is added with the id of the layer
+    return typeof this.source === 'string' ? this.source : this.id;
+  }
+}
+
+function isSameValue(a: any, b: any) {
+  // Style values are plain JSON
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function hasChanged(change?: SimpleChange) {
+  return !!change && !change.isFirstChange() && !isSameValue(change.previousValue, change.currentValue);
 }
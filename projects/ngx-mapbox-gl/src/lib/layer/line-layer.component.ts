@@ -0,0 +1,41 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { LineLayout, LinePaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-line-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => LineLayerComponent) }]
+})
+export class LineLayerComponent extends LayerComponent {
+  type: 'line' = 'line';
+
+  /* Dynamic inputs */
+  @Input() layout?: LineLayout;
+  @Input() paint?: LinePaint;
+  @Input() lineOpacity?: LinePaint['line-opacity'];
+  @Input() lineColor?: LinePaint['line-color'];
+  @Input() lineTranslate?: LinePaint['line-translate'];
+  @Input() lineTranslateAnchor?: LinePaint['line-translate-anchor'];
+  @Input() lineWidth?: LinePaint['line-width'];
+  @Input() lineGapWidth?: LinePaint['line-gap-width'];
+  @Input() lineOffset?: LinePaint['line-offset'];
+  @Input() lineBlur?: LinePaint['line-blur'];
+  @Input() lineDasharray?: LinePaint['line-dasharray'];
+  @Input() linePattern?: LinePaint['line-pattern'];
+  @Input() lineGradient?: LinePaint['line-gradient'];
+
+  protected paintInputs = {
+    lineOpacity: 'line-opacity',
+    lineColor: 'line-color',
+    lineTranslate: 'line-translate',
+    lineTranslateAnchor: 'line-translate-anchor',
+    lineWidth: 'line-width',
+    lineGapWidth: 'line-gap-width',
+    lineOffset: 'line-offset',
+    lineBlur: 'line-blur',
+    lineDasharray: 'line-dasharray',
+    linePattern: 'line-pattern',
+    lineGradient: 'line-gradient'
+  };
+}
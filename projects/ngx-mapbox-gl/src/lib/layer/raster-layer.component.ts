@@ -0,0 +1,35 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { RasterLayout, RasterPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-raster-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => RasterLayerComponent) }]
+})
+export class RasterLayerComponent extends LayerComponent {
+  type: 'raster' = 'raster';
+
+  /* Dynamic inputs */
+  @Input() layout?: RasterLayout;
+  @Input() paint?: RasterPaint;
+  @Input() rasterOpacity?: RasterPaint['raster-opacity'];
+  @Input() rasterHueRotate?: RasterPaint['raster-hue-rotate'];
+  @Input() rasterBrightnessMin?: RasterPaint['raster-brightness-min'];
+  @Input() rasterBrightnessMax?: RasterPaint['raster-brightness-max'];
+  @Input() rasterSaturation?: RasterPaint['raster-saturation'];
+  @Input() rasterContrast?: RasterPaint['raster-contrast'];
+  @Input() rasterFadeDuration?: RasterPaint['raster-fade-duration'];
+  @Input() rasterResample?: RasterPaint['raster-resample'];
+
+  protected paintInputs = {
+    rasterOpacity: 'raster-opacity',
+    rasterHueRotate: 'raster-hue-rotate',
+    rasterBrightnessMin: 'raster-brightness-min',
+    rasterBrightnessMax: 'raster-brightness-max',
+    rasterSaturation: 'raster-saturation',
+    rasterContrast: 'raster-contrast',
+    rasterFadeDuration: 'raster-fade-duration',
+    rasterResample: 'raster-resample'
+  };
+}
@@ -0,0 +1,47 @@
+import { Component, forwardRef, Input } from '@angular/core';
+import { SymbolLayout, SymbolPaint } from 'mapbox-gl';
+import { LayerComponent } from './layer.component';
+
+@Component({
+  selector: 'mgl-symbol-layer',
+  template: '',
+  providers: [{ provide: LayerComponent, useExisting: forwardRef(() => SymbolLayerComponent) }]
+})
+export class SymbolLayerComponent extends LayerComponent {
+  type: 'symbol' = 'symbol';
+
+  /* Dynamic inputs */
+  @Input() layout?: SymbolLayout;
+  @Input() paint?: SymbolPaint;
+  @Input() iconOpacity?: SymbolPaint['icon-opacity'];
+  @Input() iconColor?: SymbolPaint['icon-color'];
+  @Input() iconHaloColor?: SymbolPaint['icon-halo-color'];
+  @Input() iconHaloWidth?: SymbolPaint['icon-halo-width'];
+  @Input() iconHaloBlur?: SymbolPaint['icon-halo-blur'];
+  @Input() iconTranslate?: SymbolPaint['icon-translate'];
+  @Input() iconTranslateAnchor?: SymbolPaint['icon-translate-anchor'];
+  @Input() textOpacity?: SymbolPaint['text-opacity'];
+  @Input() textColor?: SymbolPaint['text-color'];
+  @Input() textHaloColor?: SymbolPaint['text-halo-color'];
+  @Input() textHaloWidth?: SymbolPaint['text-halo-width'];
+  @Input() textHaloBlur?: SymbolPaint['text-halo-blur'];
+  @Input() textTranslate?: SymbolPaint['text-translate'];
+  @Input() textTranslateAnchor?: SymbolPaint['text-translate-anchor'];
+
+  protected paintInputs = {
+    iconOpacity: 'icon-opacity',
+    iconColor: 'icon-color',
+    iconHaloColor: 'icon-halo-color',
+    iconHaloWidth: 'icon-halo-width',
+    iconHaloBlur: 'icon-halo-blur',
+    iconTranslate: 'icon-translate',
+    iconTranslateAnchor: 'icon-translate-anchor',
+    textOpacity: 'text-opacity',
+    textColor: 'text-color',
+    textHaloColor: 'text-halo-color',
+    textHaloWidth: 'text-halo-width',
+    textHaloBlur: 'text-halo-blur',
+    textTranslate: 'text-translate',
+    textTranslateAnchor: 'text-translate-anchor'
+  };
+}
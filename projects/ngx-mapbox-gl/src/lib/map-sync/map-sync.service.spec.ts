@@ -0,0 +1,44 @@
+import { of, Subject } from 'rxjs';
+import { MapService } from '../map/map.service';
+import { MapSyncService } from './map-sync.service';
+
+describe('MapSyncService', () => {
+  class MapServiceSpy {
+    move$ = new Subject<void>();
+    mapCreated$ = of(undefined);
+    mapInstance = {
+      getZoom: () => 5,
+      getCenter: () => ({ lng: 2, lat: 48 }),
+      getBearing: () => 45,
+      getPitch: () => 30
+    };
+    move = jasmine.createSpy('move').and.callFake(() => this.move$.next());
+    on$ = () => this.move$;
+  }
+
+  let service: MapSyncService;
+  let map1: MapServiceSpy;
+  let map2: MapServiceSpy;
+
+  beforeEach(() => {
+    service = new MapSyncService();
+    map1 = new MapServiceSpy();
+    map2 = new MapServiceSpy();
+    service.addMap('group', <any>map1, { syncBearing: true, syncPitch: true });
+    service.addMap('group', <any>map2, { syncBearing: false, syncPitch: true });
+    map1.move.calls.reset();
+    map2.move.calls.reset();
+  });
+
+  it('should mirror moves to the other maps of the group without echo', () => {
+    map1.move$.next();
+    expect(map2.move).toHaveBeenCalledWith('jumpTo', undefined, 5, { lng: 2, lat: 48 }, undefined, 30);
+    expect(map1.move).not.toHaveBeenCalled();
+  });
+
+  it('should stop syncing a removed map', () => {
+    service.removeMap('group', <MapService><any>map2);
+    map1.move$.next();
+    expect(map2.move).not.toHaveBeenCalled();
+  });
+});
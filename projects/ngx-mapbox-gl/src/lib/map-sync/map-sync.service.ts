@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { MapService } from '../map/map.service';
+
+export interface MapSyncOptions {
+  syncBearing: boolean;
+  syncPitch: boolean;
+}
+
+interface SyncedMap {
+  mapService: MapService;
+  options: MapSyncOptions;
+  sub: Subscription;
+}
+
+interface SyncGroup {
+  maps: SyncedMap[];
+  // Map currently propagating its camera, used to ignore the move events it causes on the others
+  leader?: SyncedMap;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MapSyncService {
+  private groups: { [groupName: string]: SyncGroup } = {};
+
+  addMap(groupName: string, mapService: MapService, options: MapSyncOptions) {
+    const group = this.groups[groupName] || (this.groups[groupName] = { maps: [] });
+    const syncedMap: SyncedMap = {
+      mapService,
+      options,
+      sub: new Subscription()
+    };
+    syncedMap.sub.add(mapService.mapCreated$.subscribe(() => {
+      const reference = group.maps.find((other) => other !== syncedMap && !!other.mapService.mapInstance);
+      if (reference) {
+        this.syncMap(reference, syncedMap);
+      }
+    }));
+    syncedMap.sub.add(mapService.on$('move', { outsideAngular: true }).subscribe(() => {
+      if (group.leader) {
+        return;
+      }
+      group.leader = syncedMap;
+      try {
+        group.maps
+          .filter((other) => other !== syncedMap && !!other.mapService.mapInstance)
+          .forEach((other) => this.syncMap(syncedMap, other));
+      } finally {
+        group.leader = undefined;
+      }
+    }));
+    group.maps.push(syncedMap);
+  }
+
+  removeMap(groupName: string, mapService: MapService) {
+    const group = this.groups[groupName];
+    if (!group) {
+      return;
+    }
+    const syncedMap = group.maps.find((m) => m.mapService === mapService);
+    if (!syncedMap) {
+      return;
+    }
+    syncedMap.sub.unsubscribe();
+    group.maps.splice(group.maps.indexOf(syncedMap), 1);
+    if (!group.maps.length) {
+      delete this.groups[groupName];
+    }
+  }
+
+  private syncMap(source: SyncedMap, target: SyncedMap) {
+    const sourceMap = source.mapService.mapInstance;
+    target.mapService.move(
+      'jumpTo',
+      undefined,
+      sourceMap.getZoom(),
+      sourceMap.getCenter(),
+      source.options.syncBearing && target.options.syncBearing ? sourceMap.getBearing() : undefined,
+      source.options.syncPitch && target.options.syncPitch ? sourceMap.getPitch() : undefined
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { Directive, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { MapService } from '../map/map.service';
+import { MapSyncOptions, MapSyncService } from './map-sync.service';
+
+@Directive({
+  selector: 'mgl-map[mglSyncGroup]'
+})
+export class SyncGroupDirective implements OnInit, OnChanges, OnDestroy {
+  /* Dynamic inputs */
+  @Input() mglSyncGroup: string;
+  @Input() syncBearing = true;
+  @Input() syncPitch = true;
+
+  private options: MapSyncOptions;
+
+  constructor(
+    private MapService: MapService,
+    private MapSyncService: MapSyncService
+  ) { }
+
+  ngOnInit() {
+    this.options = {
+      syncBearing: this.syncBearing,
+      syncPitch: this.syncPitch
+    };
+    this.MapSyncService.addMap(this.mglSyncGroup, this.MapService, this.options);
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes.syncBearing && !changes.syncBearing.isFirstChange()) {
+      this.options.syncBearing = changes.syncBearing.currentValue;
+    }
+    if (changes.syncPitch && !changes.syncPitch.isFirstChange()) {
+      this.options.syncPitch = changes.syncPitch.currentValue;
+    }
+    if (changes.mglSyncGroup && !changes.mglSyncGroup.isFirstChange()) {
+      this.MapSyncService.removeMap(changes.mglSyncGroup.previousValue, this.MapService);
+      this.MapSyncService.addMap(changes.mglSyncGroup.currentValue, this.MapService, this.options);
+    }
+  }
+
+  ngOnDestroy() {
+    this.MapSyncService.removeMap(this.mglSyncGroup, this.MapService);
+  }
+}
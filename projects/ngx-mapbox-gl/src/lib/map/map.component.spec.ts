@@ -1,6 +1,6 @@
 import { SimpleChange } from '@angular/core';
 import { async, ComponentFixture, fakeAsync, flushMicrotasks, TestBed } from '@angular/core/testing';
-import { ReplaySubject } from 'rxjs';
+import { EMPTY, ReplaySubject } from 'rxjs';
 import { MapComponent } from './map.component';
 import { MapService, SetupMap } from './map.service';
 
@@ -8,8 +8,11 @@ describe('MapComponent', () => {
   class MapServiceSpy {
     setup = jasmine.createSpy('setup');
     updateMinZoom = jasmine.createSpy('updateMinZoom');
+    move = jasmine.createSpy('move');
     destroyMap = jasmine.createSpy('destroyMap');
     mapCreated$ = new ReplaySubject(1);
+    on$ = jasmine.createSpy('on$').and.returnValue(EMPTY);
+    styleSwapped$ = EMPTY;
   }
 
   let msSpy: MapServiceSpy;
@@ -64,5 +67,15 @@ describe('MapComponent', () => {
       flushMicrotasks();
       expect(msSpy.updateMinZoom).toHaveBeenCalledWith(6);
     }));
+
+    it('should move with a plain number zoom', fakeAsync(() => {
+      msSpy.mapCreated$.complete();
+      component.zoom = 6;
+      component.ngOnChanges({
+        zoom: new SimpleChange(null, component.zoom, false)
+      });
+      flushMicrotasks();
+      expect(msSpy.move).toHaveBeenCalledWith('flyTo', undefined, 6, undefined, undefined, undefined);
+    }));
   });
 });
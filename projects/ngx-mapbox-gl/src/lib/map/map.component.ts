@@ -1,18 +1,18 @@
 import {
   AnimationOptions,
-  EventData,
+  LngLat,
+  LngLatBounds,
   LngLatBoundsLike,
   LngLatLike,
   Map,
-  MapBoxZoomEvent,
-  MapMouseEvent,
-  MapTouchEvent,
   PaddingOptions,
   PointLike,
   Style
   } from 'mapbox-gl';
 import { MapService, MovingOptions } from './map.service';
 import { MapEvent } from './map.types';
+import { Subscription } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
 import {
   AfterViewInit,
   ChangeDetectionStrategy,
@@ -23,6 +23,7 @@ import {
   OnChanges,
   OnDestroy,
   Output,
+  SimpleChange,
   SimpleChanges,
   ViewChild,
 } from '@angular/core';
@@ -88,9 +89,11 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
   @Input() style: Style | string;
   @Input() center?: LngLatLike;
   @Input() maxBounds?: LngLatBoundsLike;
-  @Input() zoom?: [number];
-  @Input() bearing?: [number];
-  @Input() pitch?: [number];
+  @Input() bounds?: LngLatBoundsLike;
+  // [number] is still accepted to force a move even if the value did not change
+  @Input() zoom?: number | [number];
+  @Input() bearing?: number | [number];
+  @Input() pitch?: number | [number];
 
   /* Added by ngx-mapbox-gl */
   @Input() movingMethod: 'jumpTo' | 'easeTo' | 'flyTo' = 'flyTo';
@@ -106,53 +109,66 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
   @Input() centerWithPanTo?: boolean;
   @Input() panToOptions?: AnimationOptions;
   @Input() cursorStyle?: string;
+  /**
+   * Stack the layers in the order of their mgl-layer elements in the template (init only)
+   */
+  @Input() templateLayerOrder?: boolean;
 
-  @Output() resize = new EventEmitter<void>();
-  @Output() remove = new EventEmitter<void>();
-  @Output() mouseDown = new EventEmitter<MapMouseEvent>();
-  @Output() mouseUp = new EventEmitter<MapMouseEvent>();
-  @Output() mouseMove = new EventEmitter<MapMouseEvent>();
-  @Output() click = new EventEmitter<MapMouseEvent>();
-  @Output() dblClick = new EventEmitter<MapMouseEvent>();
-  @Output() mouseEnter = new EventEmitter<MapMouseEvent>();
-  @Output() mouseLeave = new EventEmitter<MapMouseEvent>();
-  @Output() mouseOver = new EventEmitter<MapMouseEvent>();
-  @Output() mouseOut = new EventEmitter<MapMouseEvent>();
-  @Output() contextMenu = new EventEmitter<MapMouseEvent>();
-  @Output() touchStart = new EventEmitter<MapTouchEvent>();
-  @Output() touchEnd = new EventEmitter<MapTouchEvent>();
-  @Output() touchMove = new EventEmitter<MapTouchEvent>();
-  @Output() touchCancel = new EventEmitter<MapTouchEvent>();
-  @Output() wheel = new EventEmitter<any>(); // TODO MapWheelEvent
-  @Output() moveStart = new EventEmitter<DragEvent>(); // TODO Check type
-  @Output() move = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() moveEnd = new EventEmitter<DragEvent>();
-  @Output() dragStart = new EventEmitter<DragEvent>();
-  @Output() drag = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() dragEnd = new EventEmitter<DragEvent>();
-  @Output() zoomStart = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() zoomEvt = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() zoomEnd = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() rotateStart = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() rotate = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() rotateEnd = new EventEmitter<MapTouchEvent | MapMouseEvent>();
-  @Output() pitchStart = new EventEmitter<EventData>();
-  @Output() pitchEvt = new EventEmitter<EventData>();
-  @Output() pitchEnd = new EventEmitter<EventData>();
-  @Output() boxZoomStart = new EventEmitter<MapBoxZoomEvent>();
-  @Output() boxZoomEnd = new EventEmitter<MapBoxZoomEvent>();
-  @Output() boxZoomCancel = new EventEmitter<MapBoxZoomEvent>();
-  @Output() webGlContextLost = new EventEmitter<void>();
-  @Output() webGlContextRestored = new EventEmitter<void>();
-  @Output() load = new EventEmitter<any>();
-  @Output() render = new EventEmitter<void>();
-  @Output() error = new EventEmitter<any>(); // TODO Check type
-  @Output() data = new EventEmitter<EventData>();
-  @Output() styleData = new EventEmitter<EventData>();
-  @Output() sourceData = new EventEmitter<EventData>();
-  @Output() dataLoading = new EventEmitter<EventData>();
-  @Output() styleDataLoading = new EventEmitter<EventData>();
-  @Output() sourceDataLoading = new EventEmitter<EventData>();
+  @Output() resize = this.MapService.on$('resize');
+  @Output() remove = this.MapService.on$('remove');
+  @Output() mouseDown = this.MapService.on$('mousedown');
+  @Output() mouseUp = this.MapService.on$('mouseup');
+  @Output() mouseMove = this.MapService.on$('mousemove');
+  @Output() click = this.MapService.on$('click');
+  @Output() dblClick = this.MapService.on$('dblclick');
+  @Output() mouseEnter = this.MapService.on$('mouseenter');
+  @Output() mouseLeave = this.MapService.on$('mouseleave');
+  @Output() mouseOver = this.MapService.on$('mouseover');
+  @Output() mouseOut = this.MapService.on$('mouseout');
+  @Output() contextMenu = this.MapService.on$('contextmenu');
+  @Output() touchStart = this.MapService.on$('touchstart');
+  @Output() touchEnd = this.MapService.on$('touchend');
+  @Output() touchMove = this.MapService.on$('touchmove');
+  @Output() touchCancel = this.MapService.on$('touchcancel');
+  @Output() wheel = this.MapService.on$('wheel');
+  @Output() moveStart = this.MapService.on$('movestart');
+  @Output() move = this.MapService.on$('move');
+  @Output() moveEnd = this.MapService.on$('moveend');
+  @Output() dragStart = this.MapService.on$('dragstart');
+  @Output() drag = this.MapService.on$('drag');
+  @Output() dragEnd = this.MapService.on$('dragend');
+  @Output() zoomStart = this.MapService.on$('zoomstart');
+  @Output() zoomEvt = this.MapService.on$('zoom');
+  @Output() zoomEnd = this.MapService.on$('zoomend');
+  @Output() rotateStart = this.MapService.on$('rotatestart');
+  @Output() rotate = this.MapService.on$('rotate');
+  @Output() rotateEnd = this.MapService.on$('rotateend');
+  @Output() pitchStart = this.MapService.on$('pitchstart');
+  @Output() pitchEvt = this.MapService.on$('pitch');
+  @Output() pitchEnd = this.MapService.on$('pitchend');
+  @Output() boxZoomStart = this.MapService.on$('boxzoomstart');
+  @Output() boxZoomEnd = this.MapService.on$('boxzoomend');
+  @Output() boxZoomCancel = this.MapService.on$('boxzoomcancel');
+  @Output() webGlContextLost = this.MapService.on$('webglcontextlost');
+  @Output() webGlContextRestored = this.MapService.on$('webglcontextrestored');
+  @Output() load = this.MapService.on$('load').pipe(map(() => this.mapInstance));
+  @Output() render = this.MapService.on$('render');
+  @Output() error = this.MapService.on$('error');
+  @Output() data = this.MapService.on$('data');
+  @Output() styleData = this.MapService.on$('styledata');
+  @Output() sourceData = this.MapService.on$('sourcedata');
+  @Output() dataLoading = this.MapService.on$('dataloading');
+  @Output() styleDataLoading = this.MapService.on$('styledataloading');
+  @Output() sourceDataLoading = this.MapService.on$('sourcedataloading');
+  // Fired when a style change is done and every component has been restored on the new style
+  @Output() styleSwapped = this.MapService.styleSwapped$;
+
+  /* Camera changes made by the user (for two-way binding) */
+  @Output() centerChange = new EventEmitter<LngLat>();
+  @Output() zoomChange = new EventEmitter<number>();
+  @Output() bearingChange = new EventEmitter<number>();
+  @Output() pitchChange = new EventEmitter<number>();
+  @Output() boundsChange = new EventEmitter<LngLatBounds>();
 
   get mapInstance(): Map {
     return this.MapService.mapInstance;
@@ -160,6 +176,15 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
 
   @ViewChild('container') mapContainer: ElementRef;
 
+  private emittedCamera: {
+    center?: LngLat,
+    zoom?: number,
+    bearing?: number,
+    pitch?: number,
+    bounds?: LngLatBounds
+  } = {};
+  private sub = new Subscription();
+
   constructor(
     private MapService: MapService
   ) { }
@@ -168,6 +193,7 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
     this.MapService.setup({
       accessToken: this.accessToken,
       customMapboxApiUrl: this.customMapboxApiUrl,
+      templateLayerOrder: this.templateLayerOrder,
       mapOptions: {
         container: this.mapContainer.nativeElement,
         minZoom: this.minZoom,
@@ -193,22 +219,32 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
         touchZoomRotate: this.touchZoomRotate,
         trackResize: this.trackResize,
         center: this.center,
-        zoom: this.zoom,
-        bearing: this.bearing,
-        pitch: this.pitch,
+        zoom: this.unwrap(this.zoom),
+        bearing: this.unwrap(this.bearing),
+        pitch: this.unwrap(this.pitch),
         renderWorldCopies: this.renderWorldCopies,
         maxTileCacheSize: this.maxTileCacheSize,
         localIdeographFontFamily: this.localIdeographFontFamily,
         transformRequest: this.transformRequest
-      },
-      mapEvents: this
+      }
     });
     if (this.cursorStyle) {
       this.MapService.changeCanvasCursor(this.cursorStyle);
     }
+    this.MapService.mapCreated$.subscribe(() => {
+      if (this.bounds) {
+        this.MapService.fitBounds(this.bounds, { ...this.fitBoundsOptions, animate: false });
+      }
+    });
+    const sub = this.MapService.on$('moveend').pipe(
+      // Only user interactions have an originalEvent
+      filter((evt: any) => !!evt.originalEvent)
+    ).subscribe(() => this.emitCameraChanges());
+    this.sub.add(sub);
   }
 
   ngOnDestroy() {
+    this.sub.unsubscribe();
     this.MapService.destroyMap();
   }
 
@@ -253,26 +289,77 @@ export class MapComponent implements OnChanges, OnDestroy, AfterViewInit, MapEve
     if (changes.fitBounds && !changes.fitBounds.isFirstChange()) {
       this.MapService.fitBounds(changes.fitBounds.currentValue, this.fitBoundsOptions);
     }
+    if (changes.bounds && this.isExternalChange(changes.bounds, this.emittedCamera.bounds)) {
+      this.MapService.fitBounds(changes.bounds.currentValue, this.fitBoundsOptions);
+    }
+    const centerChanged = this.isExternalChange(changes.center, this.emittedCamera.center);
+    const zoomChanged = this.isExternalChange(changes.zoom, this.emittedCamera.zoom);
+    const bearingChanged = this.isExternalChange(changes.bearing, this.emittedCamera.bearing);
+    const pitchChanged = this.isExternalChange(changes.pitch, this.emittedCamera.pitch);
     if (
       this.centerWithPanTo &&
-      changes.center && !changes.center.isFirstChange() &&
-      !changes.zoom && !changes.bearing && !changes.pitch
+      centerChanged && !zoomChanged && !bearingChanged && !pitchChanged
     ) {
       this.MapService.panTo(this.center!, this.panToOptions);
-    } else if (
-      changes.center && !changes.center.isFirstChange() ||
-      changes.zoom && !changes.zoom.isFirstChange() ||
-      changes.bearing && !changes.bearing.isFirstChange() ||
-      changes.pitch && !changes.pitch.isFirstChange()
-    ) {
+    } else if (centerChanged || zoomChanged || bearingChanged || pitchChanged) {
       this.MapService.move(
         this.movingMethod,
         this.movingOptions,
-        changes.zoom && this.zoom ? this.zoom[0] : undefined,
-        changes.center ? this.center : undefined,
-        changes.bearing && this.bearing ? this.bearing[0] : undefined,
-        changes.pitch && this.pitch ? this.pitch[0] : undefined
+        zoomChanged ? this.unwrap(this.zoom) : undefined,
+        centerChanged ? this.center : undefined,
+        bearingChanged ? this.unwrap(this.bearing) : undefined,
+        pitchChanged ? this.unwrap(this.pitch) : undefined
       );
     }
   }
+
+  private emitCameraChanges() {
+    const mapInstance = this.MapService.mapInstance;
+    const center = mapInstance.getCenter();
+    const zoom = mapInstance.getZoom();
+    const bearing = mapInstance.getBearing();
+    const pitch = mapInstance.getPitch();
+    const previous = this.emittedCamera;
+    const centerChanged = !previous.center || previous.center.lng !== center.lng || previous.center.lat !== center.lat;
+    const zoomChanged = previous.zoom !== zoom;
+    const bearingChanged = previous.bearing !== bearing;
+    const pitchChanged = previous.pitch !== pitch;
+    if (!centerChanged && !zoomChanged && !bearingChanged && !pitchChanged) {
+      return;
+    }
+    this.emittedCamera = {
+      center,
+      zoom,
+      bearing,
+      pitch,
+      bounds: mapInstance.getBounds()
+    };
+    if (centerChanged) {
+      this.centerChange.emit(center);
+    }
+    if (zoomChanged) {
+      this.zoomChange.emit(zoom);
+    }
+    if (bearingChanged) {
+      this.bearingChange.emit(bearing);
+    }
+    if (pitchChanged) {
+      this.pitchChange.emit(pitch);
+    }
+    this.boundsChange.emit(this.emittedCamera.bounds);
+  }
+
+  /**
+   * Ignore the values we just emitted, so that two-way binding does not move the map back
+   */
+  private isExternalChange(change: SimpleChange | undefined, emittedValue: any): change is SimpleChange {
+    if (!change || change.isFirstChange()) {
+      return false;
+    }
+    return change.currentValue !== emittedValue;
+  }
+
+  private unwrap(value?: number | [number]) {
+    return Array.isArray(value) ? value[0] : value;
+  }
 }
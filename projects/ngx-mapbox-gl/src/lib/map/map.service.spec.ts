@@ -1,9 +1,8 @@
-import { EventEmitter, NgZone } from '@angular/core';
+import { NgZone } from '@angular/core';
 import { inject, TestBed } from '@angular/core/testing';
-import { EventData, MapBoxZoomEvent, MapMouseEvent, MapTouchEvent, Style } from 'mapbox-gl';
+import { Style } from 'mapbox-gl';
 import { first } from 'rxjs/operators';
 import { MapService } from './map.service';
-import { MapEvent } from './map.types';
 import { MockNgZone } from './mock-ng-zone';
 
 const countries = require('./countries.geo.json');
@@ -29,7 +28,6 @@ const geoJSONStyle: Style = {
 
 describe('MapService', () => {
   let container: HTMLElement;
-  let mapEvents: MapEvent;
   let zone: MockNgZone;
 
   beforeEach(() => {
@@ -46,54 +44,6 @@ describe('MapService', () => {
       ]
     });
     container = document.createElement('div');
-    mapEvents = {
-      resize: new EventEmitter<void>(),
-      remove: new EventEmitter<void>(),
-      mouseDown: new EventEmitter<MapMouseEvent>(),
-      mouseUp: new EventEmitter<MapMouseEvent>(),
-      mouseMove: new EventEmitter<MapMouseEvent>(),
-      click: new EventEmitter<MapMouseEvent>(),
-      dblClick: new EventEmitter<MapMouseEvent>(),
-      mouseEnter: new EventEmitter<MapMouseEvent>(),
-      mouseLeave: new EventEmitter<MapMouseEvent>(),
-      mouseOver: new EventEmitter<MapMouseEvent>(),
-      mouseOut: new EventEmitter<MapMouseEvent>(),
-      contextMenu: new EventEmitter<MapMouseEvent>(),
-      touchStart: new EventEmitter<MapTouchEvent>(),
-      touchEnd: new EventEmitter<MapTouchEvent>(),
-      touchMove: new EventEmitter<MapTouchEvent>(),
-      touchCancel: new EventEmitter<MapTouchEvent>(),
-      wheel: new EventEmitter<any>(),
-      moveStart: new EventEmitter<DragEvent>(), // TODO Check type
-      move: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      moveEnd: new EventEmitter<DragEvent>(),
-      dragStart: new EventEmitter<DragEvent>(),
-      drag: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      dragEnd: new EventEmitter<DragEvent>(),
-      zoomStart: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      zoomEvt: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      zoomEnd: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      rotateStart: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      rotate: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      rotateEnd: new EventEmitter<MapTouchEvent | MapMouseEvent>(),
-      pitchStart: new EventEmitter<EventData>(),
-      pitchEvt: new EventEmitter<EventData>(),
-      pitchEnd: new EventEmitter<EventData>(),
-      boxZoomStart: new EventEmitter<MapBoxZoomEvent>(),
-      boxZoomEnd: new EventEmitter<MapBoxZoomEvent>(),
-      boxZoomCancel: new EventEmitter<MapBoxZoomEvent>(),
-      webGlContextLost: new EventEmitter<void>(),
-      webGlContextRestored: new EventEmitter<void>(),
-      load: new EventEmitter<any>(),
-      render: new EventEmitter<void>(),
-      error: new EventEmitter<any>(), // TODO Check type
-      data: new EventEmitter<EventData>(),
-      styleData: new EventEmitter<EventData>(),
-      sourceData: new EventEmitter<EventData>(),
-      dataLoading: new EventEmitter<EventData>(),
-      styleDataLoading: new EventEmitter<EventData>(),
-      sourceDataLoading: new EventEmitter<EventData>()
-    };
   });
 
   beforeEach(inject([MapService], (service: MapService) => {
@@ -102,8 +52,7 @@ describe('MapService', () => {
         container,
         style: geoJSONStyle,
         zoom: 0
-      },
-      mapEvents
+      }
     });
     zone.simulateZoneExit();
   }));
@@ -112,15 +61,145 @@ describe('MapService', () => {
     expect(service.mapInstance).toBeTruthy();
   }));
 
-  it('should fire load event', (done: DoneFn) => {
-    mapEvents.load.pipe(first()).subscribe(() => {
+  it('should fire load event', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.on$('load').pipe(first()).subscribe(() => {
       expect(true).toBe(true);
       done();
     });
-  });
+  })());
+
+  it('should fire events to late subscribers', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.mapLoaded$.subscribe(() => {
+      service.on$('resize').pipe(first()).subscribe(() => {
+        expect(true).toBe(true);
+        done();
+      });
+      service.mapInstance.resize();
+    });
+  })());
+
+  it('should emit on events$ without any other subscriber', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.mapLoaded$.subscribe(() => {
+      const runSpy = spyOn(zone, 'run').and.callThrough();
+      service.events$.pipe(
+        first((mapboxEvent) => mapboxEvent.type === 'resize')
+      ).subscribe(() => {
+        // Emitted outside of the angular zone, no change detection on each frame
+        expect(runSpy).not.toHaveBeenCalled();
+        done();
+      });
+      service.mapInstance.resize();
+    });
+  })());
+
+  it('should detach the mapbox listener when there is no more subscriber', (done: DoneFn) =>
+    inject([MapService], (service: MapService) => {
+      service.mapLoaded$.subscribe(() => {
+        const offSpy = spyOn(service.mapInstance, 'off').and.callThrough();
+        const sub = service.on$('click').subscribe();
+        sub.unsubscribe();
+        expect(offSpy).toHaveBeenCalledWith('click', jasmine.any(Function));
+        done();
+      });
+    })());
+
+  it('should detach the layer listener when there is no more subscriber', (done: DoneFn) =>
+    inject([MapService], (service: MapService) => {
+      service.mapLoaded$.subscribe(() => {
+        const onSpy = spyOn(service.mapInstance, 'on').and.callThrough();
+        const offSpy = spyOn(service.mapInstance, 'off').and.callThrough();
+        const sub = service.on$('contextmenu', { layerId: 'countries' }).subscribe();
+        expect(onSpy).toHaveBeenCalledWith('contextmenu', 'countries', jasmine.any(Function));
+        sub.unsubscribe();
+        expect(offSpy).toHaveBeenCalledWith('contextmenu', 'countries', jasmine.any(Function));
+        done();
+      });
+    })());
+
+  it('should notify when the dependencies of a layer are on the map', (done: DoneFn) =>
+    inject([MapService], (service: MapService) => {
+      service.mapLoaded$.subscribe(() => {
+        const readyStates: boolean[] = [];
+        service.layerDependenciesReady$({ sourceId: 'customSource' })
+          .subscribe((ready) => readyStates.push(ready));
+        service.addSource('customSource', {
+          type: 'geojson',
+          data: countries
+        });
+        expect(readyStates).toEqual([false, true]);
+        done();
+      });
+    })());
+
+  it('should not wait forever for a missing image', (done: DoneFn) =>
+    inject([MapService], (service: MapService) => {
+      service.mapLoaded$.subscribe(() => {
+        jasmine.clock().install();
+        const warnSpy = spyOn(console, 'warn');
+        const readyStates: boolean[] = [];
+        const sub = service.layerDependenciesReady$({ sourceId: 'world', imageIds: ['missingImage'] })
+          .subscribe((ready) => readyStates.push(ready));
+        expect(readyStates).toEqual([false]);
+        jasmine.clock().tick(3000);
+        expect(readyStates).toEqual([false, true]);
+        expect(warnSpy).toHaveBeenCalled();
+        sub.unsubscribe();
+        jasmine.clock().uninstall();
+        done();
+      });
+    })());
+
+  it('should keep the layers of an updated source', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.mapLoaded$.subscribe(() => {
+      service.updateSource('world', {
+        type: 'geojson',
+        data: countries,
+        tolerance: 1
+      });
+      const layers = service.mapInstance.getStyle().layers!;
+      expect(layers.map((layer) => layer.id)).toEqual(['countries']);
+      expect(layers[0].paint).toEqual({ 'fill-color': '#6F788A' });
+      done();
+    });
+  })());
+
+  it('should restore sources and layers after a style swap', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.mapLoaded$.subscribe(() => {
+      service.addSource('customSource', {
+        type: 'geojson',
+        data: countries
+      });
+      service.addLayer({
+        layerOptions: {
+          id: 'customLayer',
+          type: 'line',
+          source: 'customSource'
+        }
+      });
+      service.styleSwapped$.pipe(first()).subscribe(() => {
+        expect(service.mapInstance.getSource('customSource')).toBeTruthy();
+        expect(service.mapInstance.getLayer('customLayer')).toBeTruthy();
+        done();
+      });
+      service.updateStyle({
+        ...geoJSONStyle,
+        layers: [{ ...geoJSONStyle.layers![0], paint: { 'fill-color': '#000000' } }]
+      });
+    });
+  })());
+
+  it('should set and remove feature state', (done: DoneFn) => inject([MapService], (service: MapService) => {
+    service.mapLoaded$.subscribe(() => {
+      const feature = { source: 'world', id: 1 };
+      service.setFeatureState(feature, { hover: true, selected: true });
+      service.removeFeatureState(feature, 'hover');
+      expect(service.getFeatureState(feature)).toEqual({ hover: null, selected: true });
+      done();
+    });
+  })());
 
   it('should update minZoom', (done: DoneFn) => inject([MapService], (service: MapService) => {
-    mapEvents.load.pipe(first()).subscribe(() => {
+    service.mapLoaded$.subscribe(() => {
       service.updateMinZoom(6);
       expect(service.mapInstance.getMinZoom()).toEqual(6);
       done();
@@ -2,13 +2,26 @@ import { EventEmitter, Inject, Injectable, InjectionToken, NgZone, Optional } fr
 import bbox from '@turf/bbox';
 import { polygon } from '@turf/helpers';
 import * as MapboxGl from 'mapbox-gl';
-import { AsyncSubject, Observable, Subscription } from 'rxjs';
-import { first } from 'rxjs/operators';
+import { AsyncSubject, combineLatest, Observable, of, Subject, Subscription } from 'rxjs';
+import { distinctUntilChanged, first, map, share, startWith, switchMap, takeUntil } from 'rxjs/operators';
 import { BBox } from 'supercluster';
-import { MapEvent, MapImageData, MapImageOptions } from './map.types';
+import {
+  FeatureIdentifier,
+  LayerDependencies,
+  MapboxEvent,
+  MapboxEventMap,
+  MapboxEventName,
+  MapEventOptions,
+  MapImageData,
+  MapImageOptions
+} from './map.types';
+import { StyleManager } from './style-manager';
 
 export const MAPBOX_API_KEY = new InjectionToken('MapboxApiKey');
 
+// Delay after which a layer is added even if some of its images are still missing
+const LAYER_IMAGES_TIMEOUT = 3000;
+
 export abstract class MglResizeEventEmitter {
   abstract resizeEvent: Observable<void>;
 }
@@ -16,20 +29,66 @@ export abstract class MglResizeEventEmitter {
 export interface SetupMap {
   accessToken?: string;
   customMapboxApiUrl?: string;
+  templateLayerOrder?: boolean;
   mapOptions: any; // MapboxGl.MapboxOptions
-  mapEvents: MapEvent;
 }
 
 export interface SetupLayer {
   layerOptions: MapboxGl.Layer;
-  layerEvents: {
-    click: EventEmitter<MapboxGl.MapMouseEvent>;
-    mouseEnter: EventEmitter<MapboxGl.MapMouseEvent>;
-    mouseLeave: EventEmitter<MapboxGl.MapMouseEvent>;
-    mouseMove: EventEmitter<MapboxGl.MapMouseEvent>;
-  };
+  // Host element of the layer, used to find its position in the template
+  element?: Element;
 }
 
+// Keyed by MapboxEventName so that the compiler checks that no event is missing
+const MAPBOX_EVENT_NAMES = <MapboxEventName[]>Object.keys(<{ [K in MapboxEventName]: true }>{
+  resize: true,
+  remove: true,
+  mousedown: true,
+  mouseup: true,
+  mousemove: true,
+  click: true,
+  dblclick: true,
+  mouseenter: true,
+  mouseleave: true,
+  mouseover: true,
+  mouseout: true,
+  contextmenu: true,
+  touchstart: true,
+  touchend: true,
+  touchmove: true,
+  touchcancel: true,
+  wheel: true,
+  movestart: true,
+  move: true,
+  moveend: true,
+  dragstart: true,
+  drag: true,
+  dragend: true,
+  zoomstart: true,
+  zoom: true,
+  zoomend: true,
+  rotatestart: true,
+  rotate: true,
+  rotateend: true,
+  pitchstart: true,
+  pitch: true,
+  pitchend: true,
+  boxzoomstart: true,
+  boxzoomend: true,
+  boxzoomcancel: true,
+  webglcontextlost: true,
+  webglcontextrestored: true,
+  load: true,
+  render: true,
+  error: true,
+  data: true,
+  styledata: true,
+  sourcedata: true,
+  dataloading: true,
+  styledataloading: true,
+  sourcedataloading: true
+});
+
 export interface SetupPopup {
   popupOptions: MapboxGl.PopupOptions;
   popupEvents: {
@@ -56,6 +115,7 @@ export interface SetupMarker {
 
 export type AllSource = MapboxGl.VectorSource |
   MapboxGl.RasterSource |
+  MapboxGl.RasterDemSource |
   MapboxGl.GeoJSONSource |
   MapboxGl.ImageSourceOptions |
   MapboxGl.VideoSourceOptions |
@@ -71,10 +131,26 @@ export class MapService {
   mapInstance: MapboxGl.Map;
   mapCreated$: Observable<void>;
   mapLoaded$: Observable<void>;
-  mapEvents: MapEvent;
+  events$: Observable<MapboxEvent>;
+  styleSwapped$: Observable<void>;
+  // Id of each source added to or removed from the map, outside of the angular zone
+  sourceAdded$: Observable<string>;
+  sourceRemoved$: Observable<string>;
 
   private mapCreated = new AsyncSubject<void>();
   private mapLoaded = new AsyncSubject<void>();
+  private mapRemoved = new AsyncSubject<void>();
+  private styleSwapped = new Subject<void>();
+  private sourceAdded = new Subject<string>();
+  private sourceRemoved = new Subject<string>();
+  // Emit each time a source or an image is added to or removed from the map
+  private dependenciesChanged = new Subject<void>();
+  private styleManager: StyleManager;
+  // Kept to be re-applied after a style swap
+  private featureStates: { [featureKey: string]: { feature: FeatureIdentifier, state: { [key: string]: any } } } = {};
+  private eventStreams: { [eventName: string]: Observable<any> } = {};
+  private templateLayerOrder = false;
+  private templateLayerElements: { [layerId: string]: Element } = {};
   private layerIdsToRemove: string[] = [];
   private sourceIdsToRemove: string[] = [];
   private markersToRemove: MapboxGl.Marker[] = [];
@@ -89,6 +165,22 @@ export class MapService {
   ) {
     this.mapCreated$ = this.mapCreated.asObservable();
     this.mapLoaded$ = this.mapLoaded.asObservable();
+    // Every event of the map (render and mousemove included), outside of the angular zone
+    this.events$ = this.mapCreated$.pipe(
+      switchMap(() => new Observable<MapboxEvent>((subscriber) => {
+        const listeners = MAPBOX_EVENT_NAMES.map((type) => {
+          const listener = (event: any) => subscriber.next({ type, event });
+          this.mapInstance.on(type, listener);
+          return { type, listener };
+        });
+        return () => listeners.forEach(({ type, listener }) => this.mapInstance.off(type, listener));
+      })),
+      takeUntil(this.mapRemoved),
+      share()
+    );
+    this.styleSwapped$ = this.styleSwapped.asObservable();
+    this.sourceAdded$ = this.sourceAdded.asObservable();
+    this.sourceRemoved$ = this.sourceRemoved.asObservable();
   }
 
   setup(options: SetupMap) {
@@ -99,9 +191,9 @@ export class MapService {
       if (options.customMapboxApiUrl) {
         this.assign(MapboxGl, 'config.API_URL', options.customMapboxApiUrl);
       }
+      this.templateLayerOrder = !!options.templateLayerOrder;
       this.createMap(options.mapOptions);
-      this.hookEvents(options.mapEvents);
-      this.mapEvents = options.mapEvents;
+      this.hookEvents();
       this.mapCreated.next(undefined);
       this.mapCreated.complete();
     });
@@ -110,6 +202,36 @@ export class MapService {
   destroyMap() {
     this.subscription.unsubscribe();
     this.mapInstance.remove();
+    this.mapRemoved.next(undefined);
+    this.mapRemoved.complete();
+    this.styleSwapped.complete();
+    this.dependenciesChanged.complete();
+  }
+
+  /**
+   * Listen to a mapboxgl.Map event.
+   * The mapbox listener is only attached while there is at least one subscriber,
+   * so it can be subscribed to at any time (before or after the map creation).
+   */
+  on$<K extends MapboxEventName>(eventName: K, options: MapEventOptions = {}): Observable<MapboxEventMap[K]> {
+    const layerId = options.layerId;
+    const streamKey = layerId ? `${eventName}:${layerId}` : eventName;
+    if (!this.eventStreams[streamKey]) {
+      this.eventStreams[streamKey] = this.mapCreated$.pipe(
+        switchMap(() => new Observable<MapboxEventMap[K]>((subscriber) => {
+          const listener = (evt: MapboxEventMap[K]) => subscriber.next(evt);
+          if (layerId) {
+            this.mapInstance.on(eventName, layerId, listener);
+            return () => this.mapInstance.off(eventName, layerId, listener);
+          }
+          this.mapInstance.on(eventName, listener);
+          return () => this.mapInstance.off(eventName, listener);
+        })),
+        share()
+      );
+    }
+    const event$: Observable<MapboxEventMap[K]> = this.eventStreams[streamKey];
+    return options.outsideAngular ? event$ : this.runInZone(event$);
   }
 
   updateMinZoom(minZoom: number) {
@@ -166,10 +288,13 @@ export class MapService {
     });
   }
 
-  updateStyle(style: MapboxGl.Style) {
-    // TODO Probably not so simple, write demo/tests
+  updateStyle(style: MapboxGl.Style | string) {
     return this.zone.runOutsideAngular(() => {
-      this.mapInstance.setStyle(style);
+      this.styleManager.swapStyle(style, () => {
+        this.reapplyFeatureStates();
+        this.dependenciesChanged.next(undefined);
+        this.zone.run(() => this.styleSwapped.next(undefined));
+      });
     });
   }
 
@@ -209,15 +334,15 @@ export class MapService {
     return this.zone.runOutsideAngular(() => {
       (<any>this.mapInstance[movingMethod])({
         ...movingOptions,
-        zoom: zoom ? zoom : this.mapInstance.getZoom(),
+        zoom: zoom !== undefined ? zoom : this.mapInstance.getZoom(),
         center: center ? center : this.mapInstance.getCenter(),
-        bearing: bearing ? bearing : this.mapInstance.getBearing(),
-        pitch: pitch ? pitch : this.mapInstance.getPitch()
+        bearing: bearing !== undefined ? bearing : this.mapInstance.getBearing(),
+        pitch: pitch !== undefined ? pitch : this.mapInstance.getPitch()
       });
     });
   }
 
-  addLayer(layer: SetupLayer, bindEvents: boolean, before?: string) {
+  addLayer(layer: SetupLayer, before?: string) {
     this.zone.runOutsideAngular(() => {
       Object.keys(layer.layerOptions)
         .forEach((key: string) => {
@@ -226,36 +351,11 @@ export class MapService {
             delete layer.layerOptions[tkey];
           }
         });
+      const layerId = layer.layerOptions.id;
       this.mapInstance.addLayer(layer.layerOptions, before);
-      if (bindEvents) {
-        if (layer.layerEvents.click.observers.length) {
-          this.mapInstance.on('click', layer.layerOptions.id, (evt: MapboxGl.MapMouseEvent) => {
-            this.zone.run(() => {
-              layer.layerEvents.click.emit(evt);
-            });
-          });
-        }
-        if (layer.layerEvents.mouseEnter.observers.length) {
-          this.mapInstance.on('mouseenter', layer.layerOptions.id, (evt: MapboxGl.MapMouseEvent) => {
-            this.zone.run(() => {
-              layer.layerEvents.mouseEnter.emit(evt);
-            });
-          });
-        }
-        if (layer.layerEvents.mouseLeave.observers.length) {
-          this.mapInstance.on('mouseleave', layer.layerOptions.id, (evt: MapboxGl.MapMouseEvent) => {
-            this.zone.run(() => {
-              layer.layerEvents.mouseLeave.emit(evt);
-            });
-          });
-        }
-        if (layer.layerEvents.mouseMove.observers.length) {
-          this.mapInstance.on('mousemove', layer.layerOptions.id, (evt: MapboxGl.MapMouseEvent) => {
-            this.zone.run(() => {
-              layer.layerEvents.mouseMove.emit(evt);
-            });
-          });
-        }
+      this.styleManager.addLayer(layerId, before);
+      if (layer.element) {
+        this.templateLayerElements[layerId] = layer.element;
       }
     });
   }
@@ -264,6 +364,49 @@ export class MapService {
     this.layerIdsToRemove.push(layerId);
   }
 
+  /**
+   * Emit whether the source and the images needed by a layer are on the map, each time it changes.
+   * The layers using a source are removed along with it.
+   * Images that are still missing after a while are only logged, they would block the layer forever otherwise.
+   */
+  layerDependenciesReady$(dependencies: LayerDependencies): Observable<boolean> {
+    const imageIds = dependencies.imageIds || [];
+    const imagesTimedOut$ = !imageIds.length ? of(true) : new Observable<boolean>((subscriber) => {
+      subscriber.next(false);
+      const timeout = this.zone.runOutsideAngular(() => setTimeout(() => {
+        const missingImageIds = imageIds.filter((imageId) => !this.mapInstance.hasImage(imageId));
+        if (missingImageIds.length) {
+          console.warn(`Images ${missingImageIds.join(', ')} not found after ${LAYER_IMAGES_TIMEOUT}ms, adding the layer anyway`);
+        }
+        subscriber.next(true);
+      }, LAYER_IMAGES_TIMEOUT));
+      return () => clearTimeout(timeout);
+    });
+    return combineLatest(this.dependenciesChanged.pipe(startWith(undefined)), imagesTimedOut$).pipe(
+      map(([, imagesTimedOut]) =>
+        (!dependencies.sourceId || !!this.mapInstance.getSource(dependencies.sourceId)) &&
+        (imagesTimedOut || imageIds.every((imageId) => this.mapInstance.hasImage(imageId)))
+      ),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * With the templateLayerOrder option, return the id of the first layer on the map that follows
+   * the given element in the template
+   */
+  getTemplateLayerBefore(element: Element): string | undefined {
+    if (!this.templateLayerOrder) {
+      return undefined;
+    }
+    const isFollowing = (a: Element, b: Element) => a.compareDocumentPosition(b) === Node.DOCUMENT_POSITION_FOLLOWING;
+    const nextLayerIds = Object.keys(this.templateLayerElements)
+      .filter((layerId) => this.layerIdsToRemove.indexOf(layerId) === -1)
+      .filter((layerId) => isFollowing(element, this.templateLayerElements[layerId]))
+      .sort((a, b) => isFollowing(this.templateLayerElements[a], this.templateLayerElements[b]) ? -1 : 1);
+    return nextLayerIds[0];
+  }
+
   addMarker(marker: SetupMarker) {
     const options: MapboxGl.MarkerOptions = {
       offset: marker.markersOptions.offset,
@@ -387,6 +530,8 @@ export class MapService {
   addImage(imageId: string, data: MapImageData, options?: MapImageOptions) {
     return this.zone.runOutsideAngular(() => {
       this.mapInstance.addImage(imageId, <any>data, options);
+      this.styleManager.addImage(imageId, data, options);
+      this.dependenciesChanged.next(undefined);
     });
   }
 
@@ -400,6 +545,32 @@ export class MapService {
         .forEach((key) =>
           (<any>source)[key] === undefined && delete (<any>source)[key]);
       this.mapInstance.addSource(sourceId, <any>source); // Typings issue
+      this.styleManager.addSource(sourceId, source);
+      this.dependenciesChanged.next(undefined);
+      this.sourceAdded.next(sourceId);
+    });
+  }
+
+  /**
+   * Replace a source with new options.
+   * The layers using it are removed then added back at the same position, with their listeners and feature states.
+   */
+  updateSource(sourceId: string, source: AllSource) {
+    return this.zone.runOutsideAngular(() => {
+      const styleLayers = this.mapInstance.getStyle().layers || [];
+      const dependentLayers = styleLayers
+        .map((layer, index) => ({
+          layer,
+          before: index + 1 < styleLayers.length ? styleLayers[index + 1].id : undefined
+        }))
+        .filter(({ layer }) => layer.source === sourceId);
+      // The layer listeners are kept by the map, they don't need to be bound again
+      dependentLayers.forEach(({ layer }) => this.mapInstance.removeLayer(layer.id));
+      this.mapInstance.removeSource(sourceId);
+      this.addSource(sourceId, source);
+      // From the top of the stack, so that the before layer is always on the map
+      [...dependentLayers].reverse().forEach(({ layer, before }) => this.mapInstance.addLayer(layer, before));
+      this.reapplyFeatureStates(sourceId);
     });
   }
 
@@ -423,7 +594,6 @@ export class MapService {
   ) {
     return this.zone.runOutsideAngular(() => {
       Object.keys(paint).forEach((key) => {
-        // TODO Check for perf, setPaintProperty only on changed paint props maybe
         this.mapInstance.setPaintProperty(layerId, key, (<any>paint)[key]);
       });
     });
@@ -441,21 +611,75 @@ export class MapService {
   ) {
     return this.zone.runOutsideAngular(() => {
       Object.keys(layout).forEach((key) => {
-        // TODO Check for perf, setPaintProperty only on changed paint props maybe
         this.mapInstance.setLayoutProperty(layerId, key, (<any>layout)[key]);
       });
     });
   }
 
+  setLayerPaintProperty(layerId: string, name: string, value: any) {
+    return this.zone.runOutsideAngular(() => {
+      this.mapInstance.setPaintProperty(layerId, name, value);
+    });
+  }
+
+  setLayerLayoutProperty(layerId: string, name: string, value: any) {
+    return this.zone.runOutsideAngular(() => {
+      this.mapInstance.setLayoutProperty(layerId, name, value);
+    });
+  }
+
+  setFeatureState(feature: FeatureIdentifier, state: { [key: string]: any }) {
+    return this.zone.runOutsideAngular(() => {
+      const featureKey = this.getFeatureKey(feature);
+      const current = this.featureStates[featureKey];
+      this.featureStates[featureKey] = {
+        feature,
+        state: { ...(current ? current.state : {}), ...state }
+      };
+      this.mapInstance.setFeatureState(<any>feature, state);
+    });
+  }
+
+  /**
+   * Remove one key of the feature state, or the whole state if key is omitted
+   */
+  removeFeatureState(feature: FeatureIdentifier, key?: string) {
+    return this.zone.runOutsideAngular(() => {
+      const featureKey = this.getFeatureKey(feature);
+      const current = this.featureStates[featureKey];
+      if (!current) {
+        return;
+      }
+      const keys = key ? [key] : Object.keys(current.state);
+      const unsetState: { [key: string]: any } = {};
+      keys.forEach((k) => {
+        // mapbox-gl 0.47 has no removeFeatureState, a null state is equivalent in expressions
+        unsetState[k] = null;
+        delete current.state[k];
+      });
+      if (!Object.keys(current.state).length) {
+        delete this.featureStates[featureKey];
+      }
+      if (this.mapInstance.getSource(feature.source)) {
+        this.mapInstance.setFeatureState(<any>feature, unsetState);
+      }
+    });
+  }
+
+  getFeatureState(feature: FeatureIdentifier): { [key: string]: any } {
+    return this.mapInstance.getFeatureState(<any>feature);
+  }
+
   setLayerFilter(layerId: string, filter: any[]) {
     return this.zone.runOutsideAngular(() => {
       this.mapInstance.setFilter(layerId, filter);
     });
   }
 
-  setLayerBefore(layerId: string, beforeId: string) {
+  setLayerBefore(layerId: string, beforeId?: string) {
     return this.zone.runOutsideAngular(() => {
       this.mapInstance.moveLayer(layerId, beforeId);
+      this.styleManager.setLayerBefore(layerId, beforeId);
     });
   }
 
@@ -471,14 +695,17 @@ export class MapService {
     });
   }
 
-  getCurrentViewportBbox(): BBox {
+  /**
+   * @param padding in pixels, added on each side of the viewport
+   */
+  getCurrentViewportBbox(padding = 0): BBox {
     const canvas = this.mapInstance.getCanvas();
     const w = canvas.width;
     const h = canvas.height;
-    const upLeft = this.mapInstance.unproject([0, 0]).toArray();
-    const upRight = this.mapInstance.unproject([w, 0]).toArray();
-    const downRight = this.mapInstance.unproject([w, h]).toArray();
-    const downLeft = this.mapInstance.unproject([0, h]).toArray();
+    const upLeft = this.mapInstance.unproject([-padding, -padding]).toArray();
+    const upRight = this.mapInstance.unproject([w + padding, -padding]).toArray();
+    const downRight = this.mapInstance.unproject([w + padding, h + padding]).toArray();
+    const downLeft = this.mapInstance.unproject([-padding, h + padding]).toArray();
     return <any>bbox(polygon([[upLeft, upRight, downRight, downLeft, upLeft]]));
   }
 
@@ -502,6 +729,7 @@ export class MapService {
         }
       });
     this.mapInstance = new MapboxGl.Map(options);
+    this.styleManager = new StyleManager(this.mapInstance);
     const subChanges = this.zone.onMicrotaskEmpty
       .subscribe(() => this.applyChanges());
     if (this.MglResizeEventEmitter) {
@@ -515,20 +743,36 @@ export class MapService {
 
   private removeLayers() {
     for (const layerId of this.layerIdsToRemove) {
-      this.mapInstance.off('click', layerId);
-      this.mapInstance.off('mouseenter', layerId);
-      this.mapInstance.off('mouseleave', layerId);
-      this.mapInstance.off('mousemove', layerId);
-      this.mapInstance.removeLayer(layerId);
+      this.detachLayer(layerId);
     }
     this.layerIdsToRemove = [];
   }
 
+  private detachLayer(layerId: string) {
+    delete this.templateLayerElements[layerId];
+    this.mapInstance.removeLayer(layerId);
+    this.styleManager.removeLayer(layerId);
+  }
+
   private removeSources() {
+    if (!this.sourceIdsToRemove.length) {
+      return;
+    }
+    const styleLayers = this.mapInstance.getStyle().layers || [];
     for (const sourceId of this.sourceIdsToRemove) {
+      // A source can't be removed while a layer is using it, these layers are added back by their component
+      styleLayers
+        .filter((layer) => layer.source === sourceId && this.mapInstance.getLayer(layer.id))
+        .forEach((layer) => this.detachLayer(layer.id));
       this.mapInstance.removeSource(sourceId);
+      this.styleManager.removeSource(sourceId);
+      Object.keys(this.featureStates)
+        .filter((featureKey) => this.featureStates[featureKey].feature.source === sourceId)
+        .forEach((featureKey) => delete this.featureStates[featureKey]);
+      this.sourceRemoved.next(sourceId);
     }
     this.sourceIdsToRemove = [];
+    this.dependenciesChanged.next(undefined);
   }
 
   private removeMarkers() {
@@ -548,156 +792,42 @@ export class MapService {
   private removeImages() {
     for (const imageId of this.imageIdsToRemove) {
       this.mapInstance.removeImage(imageId);
+      this.styleManager.removeImage(imageId);
+    }
+    if (this.imageIdsToRemove.length) {
+      this.dependenciesChanged.next(undefined);
     }
     this.imageIdsToRemove = [];
   }
 
-  private hookEvents(events: MapEvent) {
+  private hookEvents() {
     this.mapInstance.on('load', () => {
       this.mapLoaded.next(undefined);
       this.mapLoaded.complete();
-      this.zone.run(() => events.load.emit(this.mapInstance));
     });
-    if (events.resize.observers.length) {
-      this.mapInstance.on('resize', () => this.zone.run(() => events.resize.emit()));
-    }
-    if (events.remove.observers.length) {
-      this.mapInstance.on('remove', () => this.zone.run(() => events.remove.emit()));
-    }
-    if (events.mouseDown.observers.length) {
-      this.mapInstance.on('mousedown', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseDown.emit(evt)));
-    }
-    if (events.mouseUp.observers.length) {
-      this.mapInstance.on('mouseup', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseUp.emit(evt)));
-    }
-    if (events.mouseMove.observers.length) {
-      this.mapInstance.on('mousemove', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseMove.emit(evt)));
-    }
-    if (events.click.observers.length) {
-      this.mapInstance.on('click', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.click.emit(evt)));
-    }
-    if (events.dblClick.observers.length) {
-      this.mapInstance.on('dblclick', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.dblClick.emit(evt)));
-    }
-    if (events.mouseEnter.observers.length) {
-      this.mapInstance.on('mouseenter', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseEnter.emit(evt)));
-    }
-    if (events.mouseLeave.observers.length) {
-      this.mapInstance.on('mouseleave', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseLeave.emit(evt)));
-    }
-    if (events.mouseOver.observers.length) {
-      this.mapInstance.on('mouseover', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseOver.emit(evt)));
-    }
-    if (events.mouseOut.observers.length) {
-      this.mapInstance.on('mouseout', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.mouseOut.emit(evt)));
-    }
-    if (events.contextMenu.observers.length) {
-      this.mapInstance.on('contextmenu', (evt: MapboxGl.MapMouseEvent) => this.zone.run(() => events.contextMenu.emit(evt)));
-    }
-    if (events.touchStart.observers.length) {
-      this.mapInstance.on('touchstart', (evt: MapboxGl.MapTouchEvent) => this.zone.run(() => events.touchStart.emit(evt)));
-    }
-    if (events.touchEnd.observers.length) {
-      this.mapInstance.on('touchend', (evt: MapboxGl.MapTouchEvent) => this.zone.run(() => events.touchEnd.emit(evt)));
-    }
-    if (events.touchMove.observers.length) {
-      this.mapInstance.on('touchmove', (evt: MapboxGl.MapTouchEvent) => this.zone.run(() => events.touchMove.emit(evt)));
-    }
-    if (events.touchCancel.observers.length) {
-      this.mapInstance.on('touchcancel', (evt: MapboxGl.MapTouchEvent) => this.zone.run(() => events.touchCancel.emit(evt)));
-    }
-    if (events.wheel.observers.length) {
-      // MapboxGl.MapWheelEvent
-      this.mapInstance.on('wheel', (evt: any) => this.zone.run(() => events.wheel.emit(evt)));
-    }
-    if (events.moveStart.observers.length) {
-      this.mapInstance.on('movestart', (evt: DragEvent) => this.zone.run(() => events.moveStart.emit(evt)));
-    }
-    if (events.move.observers.length) {
-      this.mapInstance.on('move', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() => events.move.emit(evt)));
-    }
-    if (events.moveEnd.observers.length) {
-      this.mapInstance.on('moveend', (evt: DragEvent) => this.zone.run(() => events.moveEnd.emit(evt)));
-    }
-    if (events.dragStart.observers.length) {
-      this.mapInstance.on('dragstart', (evt: DragEvent) => this.zone.run(() => events.dragStart.emit(evt)));
-    }
-    if (events.drag.observers.length) {
-      this.mapInstance.on('drag', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() => events.drag.emit(evt)));
-    }
-    if (events.dragEnd.observers.length) {
-      this.mapInstance.on('dragend', (evt: DragEvent) => this.zone.run(() => events.dragEnd.emit(evt)));
-    }
-    if (events.zoomStart.observers.length) {
-      this.mapInstance.on('zoomstart', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() =>
-        events.zoomStart.emit(evt)));
-    }
-    if (events.zoomEvt.observers.length) {
-      this.mapInstance.on('zoom', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() => events.zoomEvt.emit(evt)));
-    }
-    if (events.zoomEnd.observers.length) {
-      this.mapInstance.on('zoomend', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() =>
-        events.zoomEnd.emit(evt)));
-    }
-    if (events.rotateStart.observers.length) {
-      this.mapInstance.on('rotatestart', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() =>
-        events.rotateStart.emit(evt)));
-    }
-    if (events.rotate.observers.length) {
-      this.mapInstance.on('rotate', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() => events.rotate.emit(evt)));
-    }
-    if (events.rotateEnd.observers.length) {
-      this.mapInstance.on('rotateend', (evt: MapboxGl.MapTouchEvent | MapboxGl.MapMouseEvent) => this.zone.run(() =>
-        events.rotateEnd.emit(evt)));
-    }
-    if (events.pitchStart.observers.length) {
-      this.mapInstance.on('pitchstart', (evt: MapboxGl.EventData) => this.zone.run(() => events.pitchStart.emit(evt)));
-    }
-    if (events.pitchEvt.observers.length) {
-      this.mapInstance.on('pitch', (evt: MapboxGl.EventData) => this.zone.run(() => events.pitchEvt.emit(evt)));
-    }
-    if (events.pitchEnd.observers.length) {
-      this.mapInstance.on('pitchend', (evt: MapboxGl.EventData) => this.zone.run(() => events.pitchEnd.emit(evt)));
-    }
-    if (events.boxZoomStart.observers.length) {
-      this.mapInstance.on('boxzoomstart', (evt: MapboxGl.MapBoxZoomEvent) => this.zone.run(() => events.boxZoomStart.emit(evt)));
-    }
-    if (events.boxZoomEnd.observers.length) {
-      this.mapInstance.on('boxzoomend', (evt: MapboxGl.MapBoxZoomEvent) => this.zone.run(() => events.boxZoomEnd.emit(evt)));
-    }
-    if (events.boxZoomCancel.observers.length) {
-      this.mapInstance.on('boxzoomcancel', (evt: MapboxGl.MapBoxZoomEvent) => this.zone.run(() => events.boxZoomCancel.emit(evt)));
-    }
-    if (events.webGlContextLost.observers.length) {
-      this.mapInstance.on('webglcontextlost', () => this.zone.run(() => events.webGlContextLost.emit()));
-    }
-    if (events.webGlContextRestored.observers.length) {
-      this.mapInstance.on('webglcontextrestored', () => this.zone.run(() => events.webGlContextRestored.emit()));
-    }
-    if (events.render.observers.length) {
-      this.mapInstance.on('render', () => this.zone.run(() => events.render.emit()));
-    }
-    if (events.error.observers.length) {
-      this.mapInstance.on('error', () => this.zone.run(() => events.error.emit()));
-    }
-    if (events.data.observers.length) {
-      this.mapInstance.on('data', (evt: MapboxGl.EventData) => this.zone.run(() => events.data.emit(evt)));
-    }
-    if (events.styleData.observers.length) {
-      this.mapInstance.on('styledata', (evt: MapboxGl.EventData) => this.zone.run(() => events.styleData.emit(evt)));
-    }
-    if (events.sourceData.observers.length) {
-      this.mapInstance.on('sourcedata', (evt: MapboxGl.EventData) => this.zone.run(() => events.sourceData.emit(evt)));
-    }
-    if (events.dataLoading.observers.length) {
-      this.mapInstance.on('dataloading', (evt: MapboxGl.EventData) => this.zone.run(() => events.dataLoading.emit(evt)));
-    }
-    if (events.styleDataLoading.observers.length) {
-      this.mapInstance.on('styledataloading', (evt: MapboxGl.EventData) => this.zone.run(() => events.styleDataLoading.emit(evt)));
-    }
-    if (events.sourceDataLoading.observers.length) {
-      this.mapInstance.on('sourcedataloading', (evt: MapboxGl.EventData) => this.zone.run(() => events.sourceDataLoading.emit(evt)));
-    }
+  }
+
+  private reapplyFeatureStates(sourceId?: string) {
+    Object.keys(this.featureStates).forEach((featureKey) => {
+      const { feature, state } = this.featureStates[featureKey];
+      if ((!sourceId || feature.source === sourceId) && this.mapInstance.getSource(feature.source)) {
+        this.mapInstance.setFeatureState(<any>feature, state);
+      }
+    });
+  }
+
+  private getFeatureKey(feature: FeatureIdentifier) {
+    return JSON.stringify([feature.source, feature.sourceLayer, feature.id]);
+  }
+
+  private runInZone<T>(source$: Observable<T>) {
+    return new Observable<T>((subscriber) =>
+      source$.subscribe(
+        (value) => this.zone.run(() => subscriber.next(value)),
+        (error) => this.zone.run(() => subscriber.error(error)),
+        () => this.zone.run(() => subscriber.complete())
+      )
+    );
   }
 
   // TODO move this elsewhere
@@ -1,55 +1,126 @@
 // Can't use MapEvent interface from @types/mapbox because some event name are changed (eg zoomChange)
 import { EventEmitter } from '@angular/core';
 import { MapMouseEvent, MapTouchEvent, EventData, MapBoxZoomEvent, Map } from 'mapbox-gl';
+import { Observable } from 'rxjs';
 import { Results, Result } from '../control/geocoder-control.directive';
 
 export interface MapEvent {
-  resize: EventEmitter<void>;
-  remove: EventEmitter<void>;
-  mouseDown: EventEmitter<MapMouseEvent>;
-  mouseUp: EventEmitter<MapMouseEvent>;
-  mouseMove: EventEmitter<MapMouseEvent>;
-  click: EventEmitter<MapMouseEvent>;
-  dblClick: EventEmitter<MapMouseEvent>;
-  mouseEnter: EventEmitter<MapMouseEvent>;
-  mouseLeave: EventEmitter<MapMouseEvent>;
-  mouseOver: EventEmitter<MapMouseEvent>;
-  mouseOut: EventEmitter<MapMouseEvent>;
-  contextMenu: EventEmitter<MapMouseEvent>;
-  touchStart: EventEmitter<MapTouchEvent>;
-  touchEnd: EventEmitter<MapTouchEvent>;
-  touchMove: EventEmitter<MapTouchEvent>;
-  touchCancel: EventEmitter<MapTouchEvent>;
-  wheel: EventEmitter<any>; // TODO MapWheelEvent
-  moveStart: EventEmitter<DragEvent>; // TODO Check type
-  move: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  moveEnd: EventEmitter<DragEvent>;
-  dragStart: EventEmitter<DragEvent>;
-  drag: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  dragEnd: EventEmitter<DragEvent>;
-  zoomStart: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  zoomEvt: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  zoomEnd: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  rotateStart: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  rotate: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  rotateEnd: EventEmitter<MapTouchEvent | MapMouseEvent>;
-  pitchStart: EventEmitter<EventData>;
-  pitchEvt: EventEmitter<EventData>;
-  pitchEnd: EventEmitter<EventData>;
-  boxZoomStart: EventEmitter<MapBoxZoomEvent>;
-  boxZoomEnd: EventEmitter<MapBoxZoomEvent>;
-  boxZoomCancel: EventEmitter<MapBoxZoomEvent>;
-  webGlContextLost: EventEmitter<void>;
-  webGlContextRestored: EventEmitter<void>;
-  load: EventEmitter<Map>;
-  render: EventEmitter<void>;
-  error: EventEmitter<any>; // TODO Check type
-  data: EventEmitter<EventData>;
-  styleData: EventEmitter<EventData>;
-  sourceData: EventEmitter<EventData>;
-  dataLoading: EventEmitter<EventData>;
-  styleDataLoading: EventEmitter<EventData>;
-  sourceDataLoading: EventEmitter<EventData>;
+  resize: Observable<EventData>;
+  remove: Observable<EventData>;
+  mouseDown: Observable<MapMouseEvent>;
+  mouseUp: Observable<MapMouseEvent>;
+  mouseMove: Observable<MapMouseEvent>;
+  click: Observable<MapMouseEvent>;
+  dblClick: Observable<MapMouseEvent>;
+  mouseEnter: Observable<MapMouseEvent>;
+  mouseLeave: Observable<MapMouseEvent>;
+  mouseOver: Observable<MapMouseEvent>;
+  mouseOut: Observable<MapMouseEvent>;
+  contextMenu: Observable<MapMouseEvent>;
+  touchStart: Observable<MapTouchEvent>;
+  touchEnd: Observable<MapTouchEvent>;
+  touchMove: Observable<MapTouchEvent>;
+  touchCancel: Observable<MapTouchEvent>;
+  wheel: Observable<any>; // TODO MapWheelEvent
+  moveStart: Observable<DragEvent>; // TODO Check type
+  move: Observable<MapTouchEvent | MapMouseEvent>;
+  moveEnd: Observable<DragEvent>;
+  dragStart: Observable<DragEvent>;
+  drag: Observable<MapTouchEvent | MapMouseEvent>;
+  dragEnd: Observable<DragEvent>;
+  zoomStart: Observable<MapTouchEvent | MapMouseEvent>;
+  zoomEvt: Observable<MapTouchEvent | MapMouseEvent>;
+  zoomEnd: Observable<MapTouchEvent | MapMouseEvent>;
+  rotateStart: Observable<MapTouchEvent | MapMouseEvent>;
+  rotate: Observable<MapTouchEvent | MapMouseEvent>;
+  rotateEnd: Observable<MapTouchEvent | MapMouseEvent>;
+  pitchStart: Observable<EventData>;
+  pitchEvt: Observable<EventData>;
+  pitchEnd: Observable<EventData>;
+  boxZoomStart: Observable<MapBoxZoomEvent>;
+  boxZoomEnd: Observable<MapBoxZoomEvent>;
+  boxZoomCancel: Observable<MapBoxZoomEvent>;
+  webGlContextLost: Observable<EventData>;
+  webGlContextRestored: Observable<EventData>;
+  load: Observable<Map>;
+  render: Observable<EventData>;
+  error: Observable<any>; // TODO Check type
+  data: Observable<EventData>;
+  styleData: Observable<EventData>;
+  sourceData: Observable<EventData>;
+  dataLoading: Observable<EventData>;
+  styleDataLoading: Observable<EventData>;
+  sourceDataLoading: Observable<EventData>;
+}
+
+/**
+ * Payload of each event fired by mapboxgl.Map, keyed by its mapbox name
+ */
+export interface MapboxEventMap {
+  resize: EventData;
+  remove: EventData;
+  mousedown: MapMouseEvent;
+  mouseup: MapMouseEvent;
+  mousemove: MapMouseEvent;
+  click: MapMouseEvent;
+  dblclick: MapMouseEvent;
+  mouseenter: MapMouseEvent;
+  mouseleave: MapMouseEvent;
+  mouseover: MapMouseEvent;
+  mouseout: MapMouseEvent;
+  contextmenu: MapMouseEvent;
+  touchstart: MapTouchEvent;
+  touchend: MapTouchEvent;
+  touchmove: MapTouchEvent;
+  touchcancel: MapTouchEvent;
+  wheel: any; // TODO MapWheelEvent
+  movestart: DragEvent; // TODO Check type
+  move: MapTouchEvent | MapMouseEvent;
+  moveend: DragEvent;
+  dragstart: DragEvent;
+  drag: MapTouchEvent | MapMouseEvent;
+  dragend: DragEvent;
+  zoomstart: MapTouchEvent | MapMouseEvent;
+  zoom: MapTouchEvent | MapMouseEvent;
+  zoomend: MapTouchEvent | MapMouseEvent;
+  rotatestart: MapTouchEvent | MapMouseEvent;
+  rotate: MapTouchEvent | MapMouseEvent;
+  rotateend: MapTouchEvent | MapMouseEvent;
+  pitchstart: EventData;
+  pitch: EventData;
+  pitchend: EventData;
+  boxzoomstart: MapBoxZoomEvent;
+  boxzoomend: MapBoxZoomEvent;
+  boxzoomcancel: MapBoxZoomEvent;
+  webglcontextlost: EventData;
+  webglcontextrestored: EventData;
+  load: EventData;
+  render: EventData;
+  error: any; // TODO Check type
+  data: EventData;
+  styledata: EventData;
+  sourcedata: EventData;
+  dataloading: EventData;
+  styledataloading: EventData;
+  sourcedataloading: EventData;
+}
+
+export type MapboxEventName = keyof MapboxEventMap;
+
+export interface MapboxEvent<K extends MapboxEventName = MapboxEventName> {
+  type: K;
+  event: MapboxEventMap[K];
+}
+
+export interface MapEventOptions {
+  /**
+   * Emit outside of the angular zone (no change detection is triggered)
+   */
+  outsideAngular?: boolean;
+  /**
+   * Only fire for the features of this layer (mouse and touch events only)
+   */
+  layerId?: string;
 }
 
 export interface GeocoderEvent {
@@ -66,3 +137,20 @@ export interface MapImageOptions {
   pixelRatio: number;
   sdf: boolean;
 }
+
+export interface LayerDependencies {
+  sourceId?: string;
+  imageIds?: string[];
+}
+
+export interface FeatureIdentifier {
+  source: string;
+  sourceLayer?: string; // Required for vector sources
+  id: string | number;
+}
+
+export interface FeatureStateBinding {
+  id: string | number;
+  sourceLayer?: string;
+  state: { [key: string]: any };
+}
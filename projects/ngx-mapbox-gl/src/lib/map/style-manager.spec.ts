@@ -0,0 +1,75 @@
+import { StyleManager } from './style-manager';
+
+describe('StyleManager', () => {
+  class MapInstanceFake {
+    layers = ['base'];
+    style = {};
+    styleLoad?: () => void;
+    getStyle() {
+      return {
+        sources: {},
+        layers: this.layers.map((id) => ({ id, type: 'background' }))
+      };
+    }
+    setStyle(style: any) {
+      if (typeof style === 'string') {
+        this.style = {};
+        this.layers = ['base'];
+      } else {
+        // The diff succeeds
+        this.layers = style.layers.map((layer: any) => layer.id);
+      }
+    }
+    once(_event: string, listener: () => void) {
+      this.styleLoad = listener;
+    }
+    getLayer(layerId: string) {
+      return this.layers.indexOf(layerId) > -1 ? { id: layerId } : undefined;
+    }
+    addLayer(layer: any, before?: string) {
+      const beforeIndex = before ? this.layers.indexOf(before) : -1;
+      if (beforeIndex > -1) {
+        this.layers.splice(beforeIndex, 0, layer.id);
+      } else {
+        this.layers.push(layer.id);
+      }
+    }
+    getSource() { }
+    hasImage() { }
+  }
+
+  let mapInstance: MapInstanceFake;
+  let styleManager: StyleManager;
+
+  beforeEach(() => {
+    mapInstance = new MapInstanceFake();
+    styleManager = new StyleManager(<any>mapInstance);
+    // layerA before layerB before base, layerC on top
+    mapInstance.addLayer({ id: 'layerB' }, 'base');
+    styleManager.addLayer('layerB', 'base');
+    mapInstance.addLayer({ id: 'layerA' }, 'layerB');
+    styleManager.addLayer('layerA', 'layerB');
+    mapInstance.addLayer({ id: 'layerC' });
+    styleManager.addLayer('layerC');
+  });
+
+  it('should keep the layers order when a style url is swapped', () => {
+    const done = jasmine.createSpy('done');
+    styleManager.swapStyle('mapbox://styles/mapbox/dark-v9', done);
+    mapInstance.styleLoad!();
+    expect(mapInstance.layers).toEqual(['layerA', 'layerB', 'base', 'layerC']);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('should keep the layers order when a style object is swapped', () => {
+    const done = jasmine.createSpy('done');
+    styleManager.swapStyle(<any>{ version: 8, sources: {}, layers: [{ id: 'base', type: 'background' }] }, done);
+    expect(mapInstance.layers).toEqual(['layerA', 'layerB', 'base', 'layerC']);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('should keep the layers order when a before is missing from the new style', () => {
+    styleManager.swapStyle(<any>{ version: 8, sources: {}, layers: [{ id: 'other', type: 'background' }] }, () => { });
+    expect(mapInstance.layers).toEqual(['other', 'layerA', 'layerB', 'layerC']);
+  });
+});
@@ -0,0 +1,149 @@
+import * as MapboxGl from 'mapbox-gl';
+import { MapImageData, MapImageOptions } from './map.types';
+
+interface ManagedLayer {
+  id: string;
+  before?: string;
+}
+
+interface ManagedImage {
+  data: MapImageData;
+  options?: MapImageOptions;
+}
+
+/**
+ * Keep track of the sources, layers and images added by ngx-mapbox-gl components,
+ * so that they can be restored in a single pass when the map style is swapped.
+ */
+export class StyleManager {
+  private sources: { [sourceId: string]: any } = {};
+  private layers: ManagedLayer[] = [];
+  private images: { [imageId: string]: ManagedImage } = {};
+
+  constructor(
+    private mapInstance: MapboxGl.Map
+  ) { }
+
+  addSource(sourceId: string, source: any) {
+    this.sources[sourceId] = source;
+  }
+
+  removeSource(sourceId: string) {
+    delete this.sources[sourceId];
+  }
+
+  addLayer(layerId: string, before?: string) {
+    this.removeLayer(layerId);
+    this.layers.push({ id: layerId, before });
+  }
+
+  setLayerBefore(layerId: string, before?: string) {
+    const layer = this.layers.find((l) => l.id === layerId);
+    if (layer) {
+      layer.before = before;
+    }
+  }
+
+  removeLayer(layerId: string) {
+    this.layers = this.layers.filter((l) => l.id !== layerId);
+  }
+
+  addImage(imageId: string, data: MapImageData, options?: MapImageOptions) {
+    this.images[imageId] = { data, options };
+  }
+
+  removeImage(imageId: string) {
+    delete this.images[imageId];
+  }
+
+  swapStyle(style: MapboxGl.Style | string, done: () => void) {
+    if (!Object.keys(this.sources).length && !this.layers.length && !Object.keys(this.images).length) {
+      this.mapInstance.setStyle(style);
+      done();
+      return;
+    }
+    // Snapshot the current state of our sources and layers (setData, setPaintProperty... included)
+    const currentStyle = this.mapInstance.getStyle();
+    const sources: { [sourceId: string]: any } = {};
+    Object.keys(this.sources).forEach((sourceId) => {
+      // Some sources (eg canvas) do not serialize all their options
+      sources[sourceId] = { ...this.sources[sourceId], ...currentStyle.sources[sourceId] };
+    });
+    const layers = currentStyle.layers!.filter((layer) => this.layers.some((l) => l.id === layer.id));
+    const reapply = () => {
+      this.reapply(sources, layers);
+      done();
+    };
+    if (typeof style === 'string') {
+      this.mapInstance.once('style.load', reapply);
+      this.mapInstance.setStyle(style, <any>{ diff: false });
+      return;
+    }
+    const previousStyle = (<any>this.mapInstance).style;
+    this.mapInstance.setStyle(this.mergeStyle(style, sources, layers));
+    if ((<any>this.mapInstance).style === previousStyle) {
+      // The diff succeeded, only the images could be missing
+      reapply();
+    } else {
+      this.mapInstance.once('style.load', reapply);
+    }
+  }
+
+  private mergeStyle(style: MapboxGl.Style, sources: { [sourceId: string]: any }, layers: MapboxGl.Layer[]) {
+    const mergedSources = { ...sources, ...style.sources };
+    const mergedLayers = [...(style.layers || [])];
+    let above: string | undefined;
+    // Top-down, so that the before of each layer is already there
+    for (const layer of [...layers].reverse()) {
+      if (!mergedLayers.some((l) => l.id === layer.id)) {
+        const beforeIndex = mergedLayers.findIndex((l) => l.id === this.getBefore(layer.id, above, (id) =>
+          mergedLayers.some((l) => l.id === id)
+        ));
+        if (beforeIndex > -1) {
+          mergedLayers.splice(beforeIndex, 0, layer);
+        } else {
+          mergedLayers.push(layer);
+        }
+      }
+      above = layer.id;
+    }
+    return {
+      ...style,
+      sources: mergedSources,
+      layers: mergedLayers
+    };
+  }
+
+  private reapply(sources: { [sourceId: string]: any }, layers: MapboxGl.Layer[]) {
+    Object.keys(sources).forEach((sourceId) => {
+      if (!this.mapInstance.getSource(sourceId)) {
+        this.mapInstance.addSource(sourceId, sources[sourceId]);
+      }
+    });
+    Object.keys(this.images).forEach((imageId) => {
+      if (!this.mapInstance.hasImage(imageId)) {
+        const image = this.images[imageId];
+        this.mapInstance.addImage(imageId, <any>image.data, image.options);
+      }
+    });
+    let above: string | undefined;
+    for (const layer of [...layers].reverse()) {
+      if (!this.mapInstance.getLayer(layer.id)) {
+        this.mapInstance.addLayer(layer, this.getBefore(layer.id, above, (id) => !!this.mapInstance.getLayer(id)));
+      }
+      above = layer.id;
+    }
+  }
+
+  /**
+   * The before of a layer if it exists, else the layer that was above it, so that the order of the style is kept
+   */
+  private getBefore(layerId: string, above: string | undefined, exists: (layerId: string) => boolean) {
+    const layer = this.layers.find((l) => l.id === layerId);
+    const before = layer ? layer.before : undefined;
+    if (before && exists(before)) {
+      return before;
+    }
+    return above;
+  }
+}
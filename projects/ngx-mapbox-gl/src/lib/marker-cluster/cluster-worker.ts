@@ -0,0 +1,121 @@
+import { BBox, Cluster, Options as SuperclusterOptions } from 'supercluster';
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Worker.postMessage is wrongly marked as deprecated in the lib.dom.d.ts of TypeScript 2.9
+interface MessageTarget {
+  postMessage(message: any): void;
+}
+
+// Functions can't be sent to a worker
+const FUNCTION_OPTIONS = ['reduce', 'initial', 'map'];
+
+/**
+ * Supercluster index built and queried in a Web Worker, every call is answered asynchronously
+ */
+export class ClusterWorker {
+  private worker: Worker;
+  private workerUrl: string;
+  private requestIdCounter = 0;
+  private pendingRequests = new Map<number, PendingRequest>();
+
+  /**
+   * superclusterUrl: self-contained build of supercluster (eg: supercluster/dist/supercluster.min.js served by the app),
+   * loaded in the worker with importScripts
+   */
+  constructor(superclusterUrl: string) {
+    // The blob url is the base url of the worker, relative urls would not resolve
+    const absoluteUrl = new URL(superclusterUrl, document.baseURI || location.href).href;
+    const source = `(${workerScope.toString()})(self, ${JSON.stringify(absoluteUrl)});`;
+    this.workerUrl = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    this.worker = new Worker(this.workerUrl);
+    this.worker.onmessage = (event: MessageEvent) => {
+      const { id, result, error } = event.data;
+      const request = this.pendingRequests.get(id);
+      if (!request) {
+        return;
+      }
+      this.pendingRequests.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result);
+      }
+    };
+    // Eg supercluster could not be loaded
+    this.worker.onerror = (event: ErrorEvent) => {
+      this.pendingRequests.forEach((request) => request.reject(new Error(event.message)));
+      this.pendingRequests.clear();
+    };
+  }
+
+  /**
+   * The function options (reduce, initial, map) are not supported
+   */
+  load(options: SuperclusterOptions, features: GeoJSON.Feature<GeoJSON.Point>[]): Promise<void> {
+    const functionOptions = FUNCTION_OPTIONS.filter((key) => (<any>options)[key] !== undefined);
+    if (functionOptions.length) {
+      return Promise.reject(new Error(`${functionOptions.join(', ')} can't be used in a worker`));
+    }
+    return this.request('load', [options, features]);
+  }
+
+  getClusters(bbox: BBox, zoom: number): Promise<Cluster[]> {
+    return this.request('getClusters', [bbox, zoom]);
+  }
+
+  getLeaves(clusterId: number, limit?: number, offset?: number): Promise<GeoJSON.Feature<GeoJSON.Point>[]> {
+    return this.request('getLeaves', [clusterId, limit, offset]);
+  }
+
+  getChildren(clusterId: number): Promise<GeoJSON.Feature<GeoJSON.Point>[]> {
+    return this.request('getChildren', [clusterId]);
+  }
+
+  getClusterExpansionZoom(clusterId: number): Promise<number> {
+    return this.request('getClusterExpansionZoom', [clusterId]);
+  }
+
+  terminate() {
+    this.worker.terminate();
+    URL.revokeObjectURL(this.workerUrl);
+    this.pendingRequests.clear();
+  }
+
+  private request<T>(method: string, args: any[]) {
+    const id = ++this.requestIdCounter;
+    const worker: MessageTarget = this.worker;
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      worker.postMessage({ id, method, args });
+    });
+  }
+}
+
+/**
+ * Run in the worker from its source: no import, no closure and no helper generated by the compiler
+ */
+function workerScope(scope: any, superclusterUrl: string) {
+  scope.importScripts(superclusterUrl);
+  let index: any;
+  scope.onmessage = (event: MessageEvent) => {
+    const id = event.data.id;
+    const method = event.data.method;
+    const args = event.data.args;
+    try {
+      let result;
+      if (method === 'load') {
+        index = scope.supercluster(args[0]);
+        index.load(args[1]);
+      } else {
+        result = index[method].apply(index, args);
+      }
+      scope.postMessage({ id, result });
+    } catch (error) {
+      scope.postMessage({ id, error: error.message || String(error) });
+    }
+  };
+}
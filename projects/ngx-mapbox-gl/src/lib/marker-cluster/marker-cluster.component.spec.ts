@@ -0,0 +1,183 @@
+import { NO_ERRORS_SCHEMA } from '@angular/core';
+import { async, ComponentFixture, fakeAsync, flushMicrotasks, TestBed, tick } from '@angular/core/testing';
+import { EMPTY, of, Subject } from 'rxjs';
+import { Supercluster } from 'supercluster';
+import { MapService } from '../map/map.service';
+import { ClusterWorker } from './cluster-worker';
+import { MarkerClusterComponent } from './marker-cluster.component';
+
+describe('MarkerClusterComponent', () => {
+  class MapServiceSpy {
+    on$ = jasmine.createSpy('on$').and.returnValue(EMPTY);
+    getCurrentViewportBbox = jasmine.createSpy('getCurrentViewportBbox').and.returnValue([-180, -85, 180, 85]);
+    mapCreated$ = of(undefined);
+    mapInstance = {
+      getZoom: () => 1.5
+    };
+  }
+
+  const point = (id: number, coordinates: GeoJSON.Position): GeoJSON.Feature<GeoJSON.Point> => ({
+    type: 'Feature',
+    id,
+    geometry: { type: 'Point', coordinates },
+    properties: {}
+  });
+
+  let msSpy: MapServiceSpy;
+  let component: MarkerClusterComponent;
+  let fixture: ComponentFixture<MarkerClusterComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [MarkerClusterComponent],
+      schemas: [NO_ERRORS_SCHEMA]
+    })
+      .overrideComponent(MarkerClusterComponent, {
+        set: {
+          providers: [
+            { provide: MapService, useClass: MapServiceSpy }
+          ]
+        }
+      })
+      .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(MarkerClusterComponent);
+    component = fixture.componentInstance;
+    msSpy = <any>fixture.debugElement.injector.get<MapService>(MapService);
+    component.data = {
+      type: 'FeatureCollection',
+      features: [point(1, [0, 0]), point(2, [0.01, 0.01]), point(3, [100, 50])]
+    };
+  });
+
+  describe('Update tests', () => {
+    it('should query the clusters of the rounded zoom', () => {
+      let index: Supercluster | undefined;
+      component.load.subscribe((supercluster: Supercluster) => {
+        index = supercluster;
+        spyOn(supercluster, 'getClusters').and.callThrough();
+      });
+      fixture.detectChanges();
+      expect(index!.getClusters).toHaveBeenCalledWith(jasmine.any(Array), 2);
+    });
+
+    it('should update the markers at most once per frame while the map moves', fakeAsync(() => {
+      const move = new Subject<any>();
+      msSpy.on$.and.callFake((eventName: string) => eventName === 'move' ? move : EMPTY);
+      fixture.detectChanges();
+      expect(msSpy.getCurrentViewportBbox).toHaveBeenCalledTimes(1);
+      move.next({});
+      move.next({});
+      move.next({});
+      tick(16);
+      expect(msSpy.getCurrentViewportBbox).toHaveBeenCalledTimes(2);
+      fixture.destroy();
+    }));
+
+    it('should only update the markers on moveend with updateOn moveend', () => {
+      component.updateOn = 'moveend';
+      fixture.detectChanges();
+      expect(msSpy.on$).toHaveBeenCalledWith('moveend', { outsideAngular: true });
+      expect(msSpy.on$).not.toHaveBeenCalledWith('move', jasmine.anything());
+    });
+
+    it('should track the clusters and the points by id', () => {
+      const cluster = <GeoJSON.Feature<GeoJSON.Point>>{
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [1, 2] },
+        properties: { cluster: true, cluster_id: 4 }
+      };
+      expect(component.trackByFeature(0, cluster)).toEqual('cluster-4');
+      expect(component.trackByFeature(0, point(1, [1, 2]))).toEqual('point-1');
+      expect(component.trackByFeature(0, { ...point(1, [1, 2]), id: undefined })).toEqual('point-1,2');
+    });
+  });
+
+  describe('Centroid tests', () => {
+    const feature = (geometry: any): GeoJSON.Feature<GeoJSON.Geometry> => ({ type: 'Feature', geometry, properties: {} });
+
+    it('should cluster the centroid of any geometry, and skip the features without coordinates', () => {
+      const line = feature({ type: 'LineString', coordinates: [[0, 0], [20, 20]] });
+      // The closing position is excluded
+      const polygon = feature({ type: 'Polygon', coordinates: [[[-40, -40], [-20, -40], [-20, -20], [-40, -20], [-40, -40]]] });
+      const multiLine = feature({ type: 'MultiLineString', coordinates: [[[40, 40], [60, 40]], [[40, 60], [60, 60]]] });
+      const collection = feature({ type: 'GeometryCollection', geometries: [{ type: 'Point', coordinates: [-100, 10] }] });
+      component.data = {
+        type: 'FeatureCollection',
+        features: [
+          line,
+          feature(null),
+          polygon,
+          feature({ type: 'LineString', coordinates: [] }),
+          feature({ type: 'Point', coordinates: [] }),
+          multiLine,
+          collection
+        ]
+      };
+      let points: GeoJSON.Feature<GeoJSON.Point>[] = [];
+      // Above maxZoom, the points are not clustered
+      component.load.subscribe((supercluster: Supercluster) => points = supercluster.getClusters([-180, -85, 180, 85], 20));
+      fixture.detectChanges();
+      const centroids = points
+        .map((p) => ({ feature: component.getSourceFeature(p), coordinates: p.geometry.coordinates.map(Math.round) }))
+        .sort((a, b) => a.coordinates[0] - b.coordinates[0]);
+      expect(centroids).toEqual([
+        { feature: collection, coordinates: [-100, 10] },
+        { feature: polygon, coordinates: [-30, -30] },
+        { feature: line, coordinates: [10, 10] },
+        { feature: multiLine, coordinates: [50, 50] }
+      ]);
+    });
+  });
+
+  describe('Worker tests', () => {
+    let errors: Error[];
+    let loadingStates: boolean[];
+
+    beforeEach(() => {
+      component.useWorker = true;
+      component.superclusterUrl = 'supercluster.min.js';
+      errors = [];
+      loadingStates = [];
+      component.workerError.subscribe((error: Error) => errors.push(error));
+      component.loading.subscribe((loading: boolean) => loadingStates.push(loading));
+    });
+
+    afterEach(() => fixture.destroy());
+
+    it('should require superclusterUrl', () => {
+      component.superclusterUrl = undefined;
+      expect(() => fixture.detectChanges()).toThrowError(/superclusterUrl/);
+    });
+
+    it('should emit workerError when the index fails to load', fakeAsync(() => {
+      const error = new Error('supercluster could not be loaded');
+      spyOn(ClusterWorker.prototype, 'load').and.returnValue(Promise.reject(error));
+      spyOn(ClusterWorker.prototype, 'getClusters').and.returnValue(Promise.resolve([]));
+      fixture.detectChanges();
+      flushMicrotasks();
+      expect(errors).toEqual([error]);
+      expect(loadingStates).toEqual([true, false]);
+    }));
+
+    it('should emit workerError when the clusters query fails', fakeAsync(() => {
+      const error = new Error('No index');
+      spyOn(ClusterWorker.prototype, 'load').and.returnValue(Promise.resolve());
+      spyOn(ClusterWorker.prototype, 'getClusters').and.returnValue(Promise.reject(error));
+      fixture.detectChanges();
+      flushMicrotasks();
+      expect(errors).toEqual([error]);
+    }));
+
+    it('should reject the function options', fakeAsync(() => {
+      component.reduce = () => undefined;
+      spyOn(ClusterWorker.prototype, 'getClusters').and.returnValue(Promise.resolve([]));
+      fixture.detectChanges();
+      flushMicrotasks();
+      expect(errors.length).toEqual(1);
+      expect(errors[0].message).toContain('reduce');
+    }));
+  });
+});
@@ -15,10 +15,18 @@ import {
   SimpleChanges,
   TemplateRef
 } from '@angular/core';
-import { fromEvent, merge, Subscription } from 'rxjs';
-import { startWith } from 'rxjs/operators';
-import supercluster, { Cluster, Options as SuperclusterOptions, Supercluster } from 'supercluster';
+import { animationFrameScheduler, Subscription } from 'rxjs';
+import { auditTime, startWith } from 'rxjs/operators';
+import supercluster, { BBox, Cluster, Options as SuperclusterOptions, Supercluster } from 'supercluster';
 import { MapService } from '../map/map.service';
+import { ClusterWorker } from './cluster-worker';
+
+// Point indexed in supercluster, sourceIndex being the index of its feature in data
+interface IndexedPoint extends GeoJSON.Feature<GeoJSON.Point> {
+  sourceIndex: number;
+}
+
+const OPTION_INPUTS = ['radius', 'maxZoom', 'minZoom', 'extent', 'nodeSize', 'log', 'reduce', 'initial', 'map'];
 
 @Directive({ selector: 'ng-template[mglPoint]' })
 export class PointDirective { }
@@ -29,7 +37,7 @@ export class ClusterPointDirective { }
 @Component({
   selector: 'mgl-marker-cluster',
   template: `
-    <ng-container *ngFor="let feature of clusterPoints">
+    <ng-container *ngFor="let feature of clusterPoints; trackBy: trackByFeature">
       <ng-container *ngIf="feature.properties.cluster; else point">
         <mgl-marker
           [feature]="feature"
@@ -46,7 +54,7 @@ export class ClusterPointDirective { }
         <mgl-marker
           [feature]="feature"
         >
-          <ng-container *ngTemplateOutlet="pointTpl; context: { $implicit: feature }"></ng-container>
+          <ng-container *ngTemplateOutlet="pointTpl; context: { $implicit: getSourceFeature(feature), point: feature }"></ng-container>
         </mgl-marker>
       </ng-template>
     </ng-container>
@@ -56,6 +64,24 @@ export class ClusterPointDirective { }
 })
 export class MarkerClusterComponent implements OnChanges, OnDestroy, AfterContentInit, OnInit {
   /* Init input */
+  /**
+   * Build and query the index in a Web Worker: the cluster functions return promises,
+   * and reduce, initial and map are not supported
+   */
+  @Input() useWorker?: boolean;
+  /**
+   * Required with useWorker: url of the self-contained build of supercluster (supercluster/dist/supercluster.min.js),
+   * served by the app
+   */
+  @Input() superclusterUrl?: string;
+  /**
+   * Update the markers at most once per frame while the map moves, or only once it stops moving.
+   * The clusters themselves only change at integer zooms: supercluster 4.1.1 builds one tree per integer zoom,
+   * so the zoom of the map is rounded to the nearest one
+   */
+  @Input() updateOn: 'frame' | 'moveend' = 'frame';
+
+  /* Dynamic input */
   @Input() radius?: number;
   @Input() maxZoom?: number;
   @Input() minZoom?: number;
@@ -65,11 +91,32 @@ export class MarkerClusterComponent implements OnChanges, OnDestroy, AfterConten
   @Input() reduce?: (accumulated: any, props: any) => void;
   @Input() initial?: () => any;
   @Input() map?: (props: any) => any;
+  /**
+   * Pixels around the viewport where the markers are already rendered
+   */
+  @Input() viewportPadding = 50;
+  /**
+   * Features of any geometry, the point template gets the original feature.
+   * The features without geometry or coordinates are skipped
+   */
+  @Input() data: GeoJSON.FeatureCollection<GeoJSON.Geometry>;
+  /**
+   * Position of a feature in the clusters, the centroid of its geometry by default
+   */
+  @Input() pointAccessor?: (feature: GeoJSON.Feature<GeoJSON.Geometry>) => GeoJSON.Position;
 
-  /* Dynamic input */
-  @Input() data: GeoJSON.FeatureCollection<GeoJSON.Point>;
-
+  /**
+   * Not emitted with useWorker
+   */
   @Output() load = new EventEmitter<Supercluster>();
+  /**
+   * With useWorker, true while the index is (re)built
+   */
+  @Output() loading = new EventEmitter<boolean>();
+  /**
+   * With useWorker, the failures of the index (eg: supercluster could not be loaded)
+   */
+  @Output() workerError = new EventEmitter<Error>();
 
   @ContentChild(PointDirective, { read: TemplateRef }) pointTpl: TemplateRef<any>;
   @ContentChild(ClusterPointDirective, { read: TemplateRef }) clusterPointTpl: TemplateRef<any>;
@@ -77,6 +124,11 @@ export class MarkerClusterComponent implements OnChanges, OnDestroy, AfterConten
   clusterPoints: GeoJSON.Feature<GeoJSON.Point>[];
 
   private supercluster: Supercluster;
+  private clusterWorker?: ClusterWorker;
+  private sourceFeatures: GeoJSON.Feature<GeoJSON.Geometry>[] = [];
+  private workerLoadId = 0;
+  private workerLoading = false;
+  private workerClustersId = 0;
   private sub = new Subscription();
 
   constructor(
@@ -86,41 +138,38 @@ export class MarkerClusterComponent implements OnChanges, OnDestroy, AfterConten
   ) { }
 
   ngOnInit() {
-    const options: SuperclusterOptions = {
-      radius: this.radius,
-      maxZoom: this.maxZoom,
-      minZoom: this.minZoom,
-      extent: this.extent,
-      nodeSize: this.nodeSize,
-      log: this.log,
-      reduce: this.reduce,
-      initial: this.initial,
-      map: this.map
-    };
-    Object.keys(options)
-      .forEach((key: string) => {
-        const tkey = <keyof SuperclusterOptions>key;
-        if (options[tkey] === undefined) {
-          delete options[tkey];
-        }
-      });
-    this.supercluster = supercluster(options);
-    this.supercluster.load(this.data.features);
-    this.load.emit(this.supercluster);
+    if (this.useWorker) {
+      if (!this.superclusterUrl) {
+        throw new Error('mgl-marker-cluster: superclusterUrl is required with useWorker');
+      }
+      this.clusterWorker = new ClusterWorker(this.superclusterUrl);
+      this.loadWorker();
+      return;
+    }
+    this.loadSupercluster();
   }
 
   ngOnChanges(changes: SimpleChanges) {
-    if (changes.data && !changes.data.isFirstChange()) {
-      this.supercluster.load(this.data.features);
+    const indexChanged = [...OPTION_INPUTS, 'data', 'pointAccessor']
+      .some((input) => changes[input] && !changes[input].isFirstChange());
+    if (!indexChanged) {
+      return;
+    }
+    if (this.clusterWorker) {
+      this.loadWorker();
+      return;
+    }
+    this.loadSupercluster();
+    if (this.MapService.mapInstance) {
+      this.updateCluster();
     }
   }
 
   ngAfterContentInit() {
     this.MapService.mapCreated$.subscribe(() => {
-      const mapMove$ = merge(
-        fromEvent(this.MapService.mapInstance, 'zoomChange'),
-        fromEvent(this.MapService.mapInstance, 'move')
-      );
+      const mapMove$ = this.updateOn === 'moveend' ?
+        this.MapService.on$('moveend', { outsideAngular: true }) :
+        this.MapService.on$('move', { outsideAngular: true }).pipe(auditTime(0, animationFrameScheduler));
       const sub = mapMove$.pipe(
         startWith<any>(undefined)
       ).subscribe(() => {
@@ -134,24 +183,189 @@ export class MarkerClusterComponent implements OnChanges, OnDestroy, AfterConten
 
   ngOnDestroy() {
     this.sub.unsubscribe();
+    if (this.clusterWorker) {
+      this.clusterWorker.terminate();
+    }
+  }
+
+  /**
+   * Keep the markers of the clusters and points still in the viewport
+   */
+  trackByFeature = (_index: number, feature: GeoJSON.Feature<GeoJSON.Point>) => {
+    if (feature.properties && feature.properties.cluster) {
+      return `cluster-${feature.properties.cluster_id}`;
+    }
+    // The points are copies in worker mode, their coordinates are the best guess without id
+    return feature.id !== undefined ? `point-${feature.id}` : `point-${feature.geometry.coordinates.join(',')}`;
   }
 
   getLeavesFn = (feature: Cluster) => {
-    return (limit?: number, offset?: number) => (<any>this.supercluster.getLeaves)(feature.properties.cluster_id!, limit, offset);
+    return (limit?: number, offset?: number) => this.clusterWorker ?
+      this.clusterWorker.getLeaves(feature.properties.cluster_id!, limit, offset).then(this.getSourceFeatures) :
+      this.getSourceFeatures((<any>this.supercluster.getLeaves)(feature.properties.cluster_id!, limit, offset));
   }
 
   getChildrenFn = (feature: Cluster) => {
-    return () => (<any>this.supercluster.getChildren)(feature.properties.cluster_id!);
+    return () => this.clusterWorker ?
+      this.clusterWorker.getChildren(feature.properties.cluster_id!).then(this.getSourceFeatures) :
+      this.getSourceFeatures((<any>this.supercluster.getChildren)(feature.properties.cluster_id!));
   }
 
   getClusterExpansionZoomFn = (feature: Cluster) => {
-    return () => (<any>this.supercluster.getClusterExpansionZoom)(feature.properties.cluster_id!);
+    return () => this.clusterWorker ?
+      this.clusterWorker.getClusterExpansionZoom(feature.properties.cluster_id!) :
+      (<any>this.supercluster.getClusterExpansionZoom)(feature.properties.cluster_id!);
+  }
+
+  getSourceFeature(point: GeoJSON.Feature<GeoJSON.Point>): GeoJSON.Feature<GeoJSON.Geometry> {
+    const sourceIndex = (<IndexedPoint>point).sourceIndex;
+    return sourceIndex !== undefined ? this.sourceFeatures[sourceIndex] : point;
+  }
+
+  private getSourceFeatures = (points: GeoJSON.Feature<GeoJSON.Point>[]) => {
+    return points.map((point) => this.getSourceFeature(point));
+  }
+
+  private loadSupercluster() {
+    this.sourceFeatures = this.data.features;
+    this.supercluster = supercluster(this.getOptions());
+    this.supercluster.load(this.getPoints());
+    this.load.emit(this.supercluster);
+  }
+
+  private loadWorker() {
+    const loadId = ++this.workerLoadId;
+    if (!this.workerLoading) {
+      this.workerLoading = true;
+      this.loading.emit(true);
+    }
+    const done = () => {
+      // Only the last load ends the loading
+      if (loadId === this.workerLoadId) {
+        this.workerLoading = false;
+        this.loading.emit(false);
+      }
+    };
+    const sourceFeatures = this.data.features;
+    this.clusterWorker!.load(this.getOptions(), this.getPoints()).then(
+      () => {
+        if (loadId === this.workerLoadId) {
+          this.sourceFeatures = sourceFeatures;
+        }
+        done();
+        if (this.MapService.mapInstance) {
+          this.updateCluster();
+        }
+      },
+      (error: Error) => {
+        done();
+        this.workerError.emit(error);
+      }
+    );
   }
 
   private updateCluster() {
-    const bbox = this.MapService.getCurrentViewportBbox();
+    const [west, south, east, north] = this.MapService.getCurrentViewportBbox(this.viewportPadding);
+    const bbox: BBox = [west, Math.max(south, -90), east, Math.min(north, 90)];
+    // supercluster only has integer zoom trees
     const currentZoom = Math.round(this.MapService.mapInstance.getZoom());
+    if (this.clusterWorker) {
+      const clustersId = ++this.workerClustersId;
+      this.clusterWorker.getClusters(bbox, currentZoom).then(
+        (clusterPoints) => {
+          // The answer of a previous viewport
+          if (clustersId !== this.workerClustersId) {
+            return;
+          }
+          this.clusterPoints = clusterPoints;
+          this.ChangeDetectorRef.markForCheck();
+        },
+        (error: Error) => {
+          if (clustersId === this.workerClustersId) {
+            this.workerError.emit(error);
+          }
+        }
+      );
+      return;
+    }
     this.clusterPoints = this.supercluster.getClusters(bbox, currentZoom);
     this.ChangeDetectorRef.markForCheck();
   }
+
+  private getOptions() {
+    const options: SuperclusterOptions = {
+      radius: this.radius,
+      maxZoom: this.maxZoom,
+      minZoom: this.minZoom,
+      extent: this.extent,
+      nodeSize: this.nodeSize,
+      log: this.log,
+      reduce: this.reduce,
+      initial: this.initial,
+      map: this.map
+    };
+    Object.keys(options)
+      .forEach((key: string) => {
+        const tkey = <keyof SuperclusterOptions>key;
+        if (options[tkey] === undefined) {
+          delete options[tkey];
+        }
+      });
+    return options;
+  }
+
+  private getPoints(): IndexedPoint[] {
+    const points: IndexedPoint[] = [];
+    this.data.features.forEach((feature, sourceIndex) => {
+      const coordinates = this.pointAccessor ? this.pointAccessor(feature) : getCentroid(feature.geometry);
+      if (!coordinates) {
+        return;
+      }
+      points.push({
+        type: 'Feature',
+        id: feature.id,
+        properties: feature.properties,
+        geometry: {
+          type: 'Point',
+          coordinates
+        },
+        sourceIndex
+      });
+    });
+    return points;
+  }
+}
+
+/**
+ * Mean of the positions of the geometry, the closing positions of the polygon rings excluded.
+ * Undefined for a null geometry or without any position
+ */
+function getCentroid(geometry: GeoJSON.Geometry | null): GeoJSON.Position | undefined {
+  const positions = geometry ? getPositions(geometry).filter((position) => position.length >= 2) : [];
+  if (!positions.length) {
+    return undefined;
+  }
+  const sum = positions.reduce((acc, position) => [acc[0] + position[0], acc[1] + position[1]], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+function getPositions(geometry: GeoJSON.Geometry): GeoJSON.Position[] {
+  const flatten = (positions: GeoJSON.Position[][]) => (<GeoJSON.Position[]>[]).concat(...positions);
+  const openRing = (ring: GeoJSON.Position[]) => ring.slice(0, -1);
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates;
+    case 'Polygon':
+      return flatten(geometry.coordinates.map(openRing));
+    case 'MultiPolygon':
+      return flatten(geometry.coordinates.map((polygon) => flatten(polygon.map(openRing))));
+    case 'GeometryCollection':
+      return flatten(geometry.geometries.filter((g) => !!g).map(getPositions));
+    default:
+      // MultiLineString, missing from GeoJSON.Geometry
+      return flatten((<GeoJSON.MultiLineString><any>geometry).coordinates);
+  }
 }
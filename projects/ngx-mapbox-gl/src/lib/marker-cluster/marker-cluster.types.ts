@@ -1,3 +1,5 @@
-export type getLeavesFn = (limit: number, offset: number) => GeoJSON.Feature<GeoJSON.Point>[];
-export type getChildrenFn = () => GeoJSON.Feature<GeoJSON.Point>[];
-export type getClusterExpansionZoomFn = (clusterId: number, clusterZoom: number) => number;
+// With useWorker, the functions return promises
+export type getLeavesFn = (limit: number, offset: number) =>
+  GeoJSON.Feature<GeoJSON.Geometry>[] | Promise<GeoJSON.Feature<GeoJSON.Geometry>[]>;
+export type getChildrenFn = () => GeoJSON.Feature<GeoJSON.Geometry>[] | Promise<GeoJSON.Feature<GeoJSON.Geometry>[]>;
+export type getClusterExpansionZoomFn = (clusterId: number, clusterZoom: number) => number | Promise<number>;
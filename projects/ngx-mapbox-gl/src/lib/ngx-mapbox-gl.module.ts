@@ -1,5 +1,6 @@
 import { CommonModule } from '@angular/common';
 import { ModuleWithProviders, NgModule } from '@angular/core';
+import { CompareComponent } from './compare/compare.component';
 import { AttributionControlDirective } from './control/attribution-control.directive';
 import { ControlComponent } from './control/control.component';
 import { FullscreenControlDirective } from './control/fullscreen-control.directive';
@@ -9,16 +10,29 @@ import { NavigationControlDirective } from './control/navigation-control.directi
 import { ScaleControlDirective } from './control/scale-control.directive';
 import { DraggableDirective } from './draggable/draggable.directive';
 import { ImageComponent } from './image/image.component';
+import { BackgroundLayerComponent } from './layer/background-layer.component';
+import { CircleLayerComponent } from './layer/circle-layer.component';
+import { FillExtrusionLayerComponent } from './layer/fill-extrusion-layer.component';
+import { FillLayerComponent } from './layer/fill-layer.component';
+import { HeatmapLayerComponent } from './layer/heatmap-layer.component';
+import { HillshadeLayerComponent } from './layer/hillshade-layer.component';
+import { LayerGroupComponent } from './layer/layer-group.component';
 import { LayerComponent } from './layer/layer.component';
+import { LineLayerComponent } from './layer/line-layer.component';
+import { RasterLayerComponent } from './layer/raster-layer.component';
+import { SymbolLayerComponent } from './layer/symbol-layer.component';
 import { MapComponent } from './map/map.component';
 import { MAPBOX_API_KEY } from './map/map.service';
+import { SyncGroupDirective } from './map-sync/sync-group.directive';
 import { ClusterPointDirective, MarkerClusterComponent, PointDirective } from './marker-cluster/marker-cluster.component';
 import { MarkerComponent } from './marker/marker.component';
 import { PopupComponent } from './popup/popup.component';
 import { CanvasSourceComponent } from './source/canvas-source.component';
+import { FeatureStateDirective } from './source/feature-state.directive';
 import { FeatureComponent } from './source/geojson/feature.component';
 import { GeoJSONSourceComponent } from './source/geojson/geojson-source.component';
 import { ImageSourceComponent } from './source/image-source.component';
+import { RasterDemSourceComponent } from './source/raster-dem-source.component';
 import { RasterSourceComponent } from './source/raster-source.component';
 import { VectorSourceComponent } from './source/vector-source.component';
 import { VideoSourceComponent } from './source/video-source.component';
@@ -30,11 +44,22 @@ import { VideoSourceComponent } from './source/video-source.component';
   declarations: [
     MapComponent,
     LayerComponent,
+    LayerGroupComponent,
+    BackgroundLayerComponent,
+    FillLayerComponent,
+    FillExtrusionLayerComponent,
+    LineLayerComponent,
+    SymbolLayerComponent,
+    RasterLayerComponent,
+    CircleLayerComponent,
+    HeatmapLayerComponent,
+    HillshadeLayerComponent,
     DraggableDirective,
     ImageComponent,
     VectorSourceComponent,
     GeoJSONSourceComponent,
     RasterSourceComponent,
+    RasterDemSourceComponent,
     ImageSourceComponent,
     VideoSourceComponent,
     CanvasSourceComponent,
@@ -50,16 +75,30 @@ import { VideoSourceComponent } from './source/video-source.component';
     ScaleControlDirective,
     PointDirective,
     ClusterPointDirective,
-    MarkerClusterComponent
+    MarkerClusterComponent,
+    SyncGroupDirective,
+    CompareComponent,
+    FeatureStateDirective
   ],
   exports: [
     MapComponent,
     LayerComponent,
+    LayerGroupComponent,
+    BackgroundLayerComponent,
+    FillLayerComponent,
+    FillExtrusionLayerComponent,
+    LineLayerComponent,
+    SymbolLayerComponent,
+    RasterLayerComponent,
+    CircleLayerComponent,
+    HeatmapLayerComponent,
+    HillshadeLayerComponent,
     DraggableDirective,
     ImageComponent,
     VectorSourceComponent,
     GeoJSONSourceComponent,
     RasterSourceComponent,
+    RasterDemSourceComponent,
     ImageSourceComponent,
     VideoSourceComponent,
     CanvasSourceComponent,
@@ -75,7 +114,10 @@ import { VideoSourceComponent } from './source/video-source.component';
     ScaleControlDirective,
     PointDirective,
     ClusterPointDirective,
-    MarkerClusterComponent
+    MarkerClusterComponent,
+    SyncGroupDirective,
+    CompareComponent,
+    FeatureStateDirective
   ]
 })
 export class NgxMapboxGLModule {
@@ -1,8 +1,6 @@
 import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
 import { CanvasSourceOptions } from 'mapbox-gl';
-import { fromEvent, Subscription } from 'rxjs';
-import { filter } from 'rxjs/operators';
-import { MapService } from '../map/map.service';
+import { AllSource, MapService } from '../map/map.service';
 
 @Component({
   selector: 'mgl-canvas-source',
@@ -19,7 +17,6 @@ export class CanvasSourceComponent implements OnInit, OnDestroy, OnChanges, Canv
   @Input() animate?: boolean;
 
   private sourceAdded = false;
-  private sub = new Subscription();
 
   constructor(
     private MapService: MapService
@@ -28,12 +25,6 @@ export class CanvasSourceComponent implements OnInit, OnDestroy, OnChanges, Canv
   ngOnInit() {
     this.MapService.mapLoaded$.subscribe(() => {
       this.init();
-      const sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getSource(this.id))
-      ).subscribe(() => {
-        this.init();
-      });
-      this.sub.add(sub);
     });
   }
 
@@ -46,26 +37,27 @@ export class CanvasSourceComponent implements OnInit, OnDestroy, OnChanges, Canv
       changes.canvas && !changes.canvas.isFirstChange() ||
       changes.animate && !changes.animate.isFirstChange()
     ) {
-      this.ngOnDestroy();
-      this.ngOnInit();
+      this.MapService.updateSource(this.id, this.getSourceOptions());
     }
   }
 
   ngOnDestroy() {
-    this.sub.unsubscribe();
     if (this.sourceAdded) {
       this.MapService.removeSource(this.id);
     }
   }
 
   private init() {
-    const source = {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    this.sourceAdded = true;
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
       type: 'canvas',
       coordinates: this.coordinates,
       canvas: this.canvas,
-      animate: this.animate,
+      animate: this.animate
     };
-    this.MapService.addSource(this.id, source);
-    this.sourceAdded = true;
   }
 }
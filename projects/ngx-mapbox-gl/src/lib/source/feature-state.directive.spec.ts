@@ -0,0 +1,66 @@
+import { AsyncSubject, Observable, of, Subject } from 'rxjs';
+import { FeatureStateDirective } from './feature-state.directive';
+
+describe('FeatureStateDirective', () => {
+  class MapServiceSpy {
+    mapLoaded$: Observable<void> = of(undefined);
+    sourceAdded$ = new Subject<string>();
+    sourceRemoved$ = new Subject<string>();
+    setFeatureState = jasmine.createSpy('setFeatureState');
+    removeFeatureState = jasmine.createSpy('removeFeatureState');
+  }
+
+  let msSpy: MapServiceSpy;
+  let directive: FeatureStateDirective;
+
+  beforeEach(() => {
+    msSpy = new MapServiceSpy();
+    directive = new FeatureStateDirective(<any>msSpy, <any>{ id: 'sourceId' });
+    directive.mglFeatureState = [{ id: 1, state: { selected: true, hover: true } }];
+    directive.ngOnInit();
+  });
+
+  it('should only set the changed states', () => {
+    expect(msSpy.setFeatureState).toHaveBeenCalledWith(
+      { source: 'sourceId', sourceLayer: undefined, id: 1 },
+      { selected: true, hover: true }
+    );
+    msSpy.setFeatureState.calls.reset();
+    directive.mglFeatureState = [{ id: 1, state: { selected: false } }];
+    directive.ngOnChanges(<any>{ mglFeatureState: { currentValue: directive.mglFeatureState, isFirstChange: () => false } });
+    expect(msSpy.removeFeatureState).toHaveBeenCalledWith({ source: 'sourceId', sourceLayer: undefined, id: 1 }, 'hover');
+    expect(msSpy.setFeatureState).toHaveBeenCalledWith({ source: 'sourceId', sourceLayer: undefined, id: 1 }, { selected: false });
+  });
+
+  it('should not set the states when destroyed before the map is loaded', () => {
+    const mapLoaded = new AsyncSubject<void>();
+    msSpy.mapLoaded$ = mapLoaded;
+    msSpy.setFeatureState.calls.reset();
+    const lateDirective = new FeatureStateDirective(<any>msSpy, <any>{ id: 'sourceId' });
+    lateDirective.mglFeatureState = [{ id: 1, state: { selected: true } }];
+    lateDirective.ngOnInit();
+    lateDirective.ngOnDestroy();
+    mapLoaded.next(undefined);
+    mapLoaded.complete();
+    expect(msSpy.setFeatureState).not.toHaveBeenCalled();
+    expect(msSpy.removeFeatureState).not.toHaveBeenCalled();
+  });
+
+  it('should set the states again when the source is added back', () => {
+    msSpy.setFeatureState.calls.reset();
+    msSpy.sourceRemoved$.next('sourceId');
+    msSpy.sourceAdded$.next('otherSourceId');
+    expect(msSpy.setFeatureState).not.toHaveBeenCalled();
+    msSpy.sourceAdded$.next('sourceId');
+    expect(msSpy.setFeatureState).toHaveBeenCalledWith(
+      { source: 'sourceId', sourceLayer: undefined, id: 1 },
+      { selected: true, hover: true }
+    );
+  });
+
+  it('should not set the states again when the source is only updated', () => {
+    msSpy.setFeatureState.calls.reset();
+    msSpy.sourceAdded$.next('sourceId');
+    expect(msSpy.setFeatureState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { Directive, Host, Input, OnChanges, OnDestroy, OnInit, Optional, SimpleChanges } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { MapService } from '../map/map.service';
+import { FeatureStateBinding } from '../map/map.types';
+import { GeoJSONSourceComponent } from './geojson/geojson-source.component';
+import { VectorSourceComponent } from './vector-source.component';
+
+@Directive({
+  selector: 'mgl-geojson-source[mglFeatureState], mgl-vector-source[mglFeatureState]'
+})
+export class FeatureStateDirective implements OnInit, OnChanges, OnDestroy {
+  /* Dynamic inputs */
+  @Input() mglFeatureState: FeatureStateBinding[];
+
+  private sourceId: string;
+  private applied: FeatureStateBinding[] = [];
+  private loaded = false;
+  private sub = new Subscription();
+
+  constructor(
+    private MapService: MapService,
+    @Optional() @Host() private GeoJSONSourceComponent?: GeoJSONSourceComponent,
+    @Optional() @Host() private VectorSourceComponent?: VectorSourceComponent
+  ) { }
+
+  ngOnInit() {
+    const source = this.GeoJSONSourceComponent || this.VectorSourceComponent;
+    this.sourceId = source!.id;
+    this.sub.add(this.MapService.mapLoaded$.subscribe(() => {
+      this.loaded = true;
+      this.update(this.mglFeatureState || []);
+    }));
+    // The map drops the feature states of a removed source, they are set again when it is added back
+    this.sub.add(this.MapService.sourceRemoved$.pipe(
+      filter((sourceId) => sourceId === this.sourceId)
+    ).subscribe(() => this.applied = []));
+    this.sub.add(this.MapService.sourceAdded$.pipe(
+      filter((sourceId) => this.loaded && sourceId === this.sourceId)
+    ).subscribe(() => this.update(this.mglFeatureState || [])));
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (this.loaded && changes.mglFeatureState && !changes.mglFeatureState.isFirstChange()) {
+      this.update(changes.mglFeatureState.currentValue || []);
+    }
+  }
+
+  ngOnDestroy() {
+    this.sub.unsubscribe();
+    if (this.loaded) {
+      this.update([]);
+    }
+  }
+
+  private update(bindings: FeatureStateBinding[]) {
+    for (const previous of this.applied) {
+      const current = bindings.find((b) => this.isSameFeature(b, previous));
+      const removedKeys = Object.keys(previous.state).filter((key) => !current || !(key in current.state));
+      removedKeys.forEach((key) => this.MapService.removeFeatureState(this.getIdentifier(previous), key));
+    }
+    for (const binding of bindings) {
+      const previous = this.applied.find((b) => this.isSameFeature(b, binding));
+      const changedState: { [key: string]: any } = {};
+      Object.keys(binding.state)
+        .filter((key) => !previous || previous.state[key] !== binding.state[key])
+        .forEach((key) => changedState[key] = binding.state[key]);
+      if (Object.keys(changedState).length) {
+        this.MapService.setFeatureState(this.getIdentifier(binding), changedState);
+      }
+    }
+    // Copy the states, since they could be mutated by the user
+    this.applied = bindings.map((b) => ({ ...b, state: { ...b.state } }));
+  }
+
+  private isSameFeature(a: FeatureStateBinding, b: FeatureStateBinding) {
+    return a.id === b.id && a.sourceLayer === b.sourceLayer;
+  }
+
+  private getIdentifier(binding: FeatureStateBinding) {
+    return {
+      source: this.sourceId,
+      sourceLayer: binding.sourceLayer,
+      id: binding.id
+    };
+  }
+}
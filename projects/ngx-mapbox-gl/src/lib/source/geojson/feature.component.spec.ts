@@ -0,0 +1,110 @@
+import { NgZone, SimpleChange } from '@angular/core';
+import { of, Subject } from 'rxjs';
+import { FeatureComponent } from './feature.component';
+
+describe('FeatureComponent', () => {
+  class GeoJSONSourceComponentSpy {
+    updateFeatureData = new Subject();
+    getNewFeatureId = jasmine.createSpy('getNewFeatureId').and.returnValue(1);
+    addFeature = jasmine.createSpy('addFeature');
+    removeFeature = jasmine.createSpy('removeFeature');
+    getRenderedFeatureIds = jasmine.createSpy('getRenderedFeatureIds').and.returnValue([]);
+  }
+
+  class MapServiceSpy {
+    events: { [eventName: string]: Subject<any> } = {};
+    mapLoaded$ = of(undefined);
+    on$ = jasmine.createSpy('on$').and.callFake((eventName: string) =>
+      this.events[eventName] = this.events[eventName] || new Subject<any>()
+    );
+  }
+
+  let sourceSpy: GeoJSONSourceComponentSpy;
+  let msSpy: MapServiceSpy;
+  let component: FeatureComponent;
+
+  beforeEach(() => {
+    sourceSpy = new GeoJSONSourceComponentSpy();
+    msSpy = new MapServiceSpy();
+    const zone = <NgZone><any>{ run: (fn: () => void) => fn() };
+    component = new FeatureComponent(<any>sourceSpy, <any>msSpy, zone);
+    component.geometry = <GeoJSON.Point>{ type: 'Point', coordinates: [0, 0] };
+  });
+
+  afterEach(() => component.ngOnDestroy());
+
+  it('should update the feature and notify the source on input changes', () => {
+    component.ngOnInit();
+    const feature = sourceSpy.addFeature.calls.mostRecent().args[0];
+    const updates: any[] = [];
+    sourceSpy.updateFeatureData.subscribe(() => updates.push(feature));
+    component.properties = { name: 'A' };
+    component.geometry = <GeoJSON.Point>{ type: 'Point', coordinates: [1, 1] };
+    component.ngOnChanges({
+      properties: new SimpleChange(undefined, component.properties, false),
+      geometry: new SimpleChange(undefined, component.geometry, false)
+    });
+    expect(feature.properties).toEqual({ name: 'A' });
+    expect(feature.geometry).toBe(component.geometry);
+    expect(updates.length).toEqual(1);
+  });
+
+  it('should update the coordinates without mutating the geometry input', () => {
+    const geometry = component.geometry = <GeoJSON.LineString>{ type: 'LineString', coordinates: [[0, 0], [1, 1]] };
+    component.ngOnInit();
+    const feature = sourceSpy.addFeature.calls.mostRecent().args[0];
+    component.updateCoordinates([[1, 1], [2, 2]]);
+    expect(feature.geometry).toEqual({ type: 'LineString', coordinates: [[1, 1], [2, 2]] });
+    expect(geometry.coordinates).toEqual([[0, 0], [1, 1]]);
+  });
+
+  it('should remove the feature on destroy', () => {
+    component.ngOnInit();
+    const feature = sourceSpy.addFeature.calls.mostRecent().args[0];
+    component.ngOnDestroy();
+    expect(sourceSpy.removeFeature).toHaveBeenCalledWith(feature);
+  });
+
+  it('should not listen to the map without bound outputs', () => {
+    component.ngOnInit();
+    Object.keys(msSpy.events).forEach((eventName) => expect(msSpy.events[eventName].observers.length).toEqual(0));
+  });
+
+  it('should emit click only when the feature is rendered under the mouse', () => {
+    const clicks: any[] = [];
+    component.click.subscribe((evt: any) => clicks.push(evt));
+    component.ngOnInit();
+    const outside = { point: { x: 0, y: 0 } };
+    const inside = { point: { x: 1, y: 1 } };
+    sourceSpy.getRenderedFeatureIds.and.callFake((evt: any) => evt === inside ? [1] : [2]);
+    msSpy.events.click.next(outside);
+    msSpy.events.click.next(inside);
+    expect(clicks).toEqual([inside]);
+  });
+
+  it('should emit click to the outputs bound after the map is loaded', () => {
+    component.ngOnInit();
+    const clicks: any[] = [];
+    component.click.subscribe((evt: any) => clicks.push(evt));
+    sourceSpy.getRenderedFeatureIds.and.returnValue([1]);
+    const evt = { point: { x: 1, y: 1 } };
+    msSpy.events.click.next(evt);
+    expect(clicks).toEqual([evt]);
+  });
+
+  it('should emit mouseEnter and mouseLeave when the hover state changes', () => {
+    const events: string[] = [];
+    component.mouseEnter.subscribe(() => events.push('enter'));
+    component.mouseLeave.subscribe(() => events.push('leave'));
+    component.ngOnInit();
+    sourceSpy.getRenderedFeatureIds.and.returnValue([1]);
+    msSpy.events.mousemove.next({});
+    msSpy.events.mousemove.next({});
+    sourceSpy.getRenderedFeatureIds.and.returnValue([]);
+    msSpy.events.mousemove.next({});
+    sourceSpy.getRenderedFeatureIds.and.returnValue([1]);
+    msSpy.events.mousemove.next({});
+    msSpy.events.mouseout.next({});
+    expect(events).toEqual(['enter', 'leave', 'enter', 'leave']);
+  });
+});
@@ -1,4 +1,20 @@
-import { Component, forwardRef, Inject, Input, OnDestroy, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  forwardRef,
+  Inject,
+  Input,
+  NgZone,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { MapMouseEvent } from 'mapbox-gl';
+import { merge, Observable } from 'rxjs';
+import { distinctUntilChanged, filter, map, share, skip, startWith } from 'rxjs/operators';
+import { MapService } from '../../map/map.service';
 import { GeoJSONSourceComponent } from './geojson-source.component';
 
 @Component({
@@ -6,17 +22,39 @@ import { GeoJSONSourceComponent } from './geojson-source.component';
   template: '',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class FeatureComponent implements OnInit, OnDestroy, GeoJSON.Feature<GeoJSON.GeometryObject> {
-  /* Init inputs */
+export class FeatureComponent implements OnInit, OnChanges, OnDestroy, GeoJSON.Feature<GeoJSON.GeometryObject> {
+  /* Dynamic inputs */
   @Input() id?: number; // FIXME number only for now https://github.com/mapbox/mapbox-gl-js/issues/2716
   @Input() geometry: GeoJSON.GeometryObject;
   @Input() properties: any;
   type: 'Feature' = 'Feature';
 
+  /* Events of this feature, on any layer rendering the source */
+  // The map listeners are only attached while these outputs are bound
+  @Output() click = this.MapService.on$('click').pipe(filter((evt) => this.isRendered(evt)));
+  @Output() mouseEnter = this.hoverChange$(true);
+  @Output() mouseLeave = this.hoverChange$(false);
+
   private feature: GeoJSON.Feature<GeoJSON.GeometryObject>;
+  // Shared by mouseEnter and mouseLeave, mousemove is listened outside of the angular zone
+  private hover$ = merge(
+    this.MapService.on$('mousemove', { outsideAngular: true }).pipe(
+      map((evt) => ({ hovered: this.isRendered(evt), evt }))
+    ),
+    this.MapService.on$('mouseout', { outsideAngular: true }).pipe(
+      map((evt) => ({ hovered: false, evt }))
+    )
+  ).pipe(
+    startWith<{ hovered: boolean, evt?: MapMouseEvent }>({ hovered: false }),
+    distinctUntilChanged((a, b) => a.hovered === b.hovered),
+    skip(1),
+    share()
+  );
 
   constructor(
-    @Inject(forwardRef(() => GeoJSONSourceComponent)) private GeoJSONSourceComponent: GeoJSONSourceComponent
+    @Inject(forwardRef(() => GeoJSONSourceComponent)) private GeoJSONSourceComponent: GeoJSONSourceComponent,
+    private MapService: MapService,
+    private zone: NgZone
   ) { }
 
   ngOnInit() {
@@ -32,12 +70,54 @@ export class FeatureComponent implements OnInit, OnDestroy, GeoJSON.Feature<GeoJ
     this.GeoJSONSourceComponent.addFeature(this.feature);
   }
 
+  ngOnChanges(changes: SimpleChanges) {
+    if (!this.feature) {
+      return;
+    }
+    let changed = false;
+    if (changes.id && !changes.id.isFirstChange() && this.id) {
+      this.feature.id = this.id;
+      changed = true;
+    }
+    if (changes.geometry && !changes.geometry.isFirstChange()) {
+      this.feature.geometry = this.geometry;
+      changed = true;
+    }
+    if (changes.properties && !changes.properties.isFirstChange()) {
+      this.feature.properties = this.properties ? this.properties : {};
+      changed = true;
+    }
+    if (changed) {
+      this.GeoJSONSourceComponent.updateFeatureData.next();
+    }
+  }
+
   ngOnDestroy() {
     this.GeoJSONSourceComponent.removeFeature(this.feature);
   }
 
-  updateCoordinates(coordinates: number[]) {
-    (<GeoJSON.Point>this.feature.geometry).coordinates = coordinates;
+  /**
+   * Coordinates of any geometry type (except GeometryCollection), the source is updated on the next frame
+   */
+  updateCoordinates(coordinates: GeoJSON.Position | GeoJSON.Position[] | GeoJSON.Position[][] | GeoJSON.Position[][][]) {
+    if (this.feature.geometry.type === 'GeometryCollection') {
+      throw new Error('updateCoordinates does not support GeometryCollection');
+    }
+    // Do not mutate the geometry input
+    this.feature.geometry = <GeoJSON.GeometryObject>{ ...this.feature.geometry, coordinates };
     this.GeoJSONSourceComponent.updateFeatureData.next();
   }
+
+  private hoverChange$(hovered: boolean) {
+    return new Observable<MapMouseEvent>((subscriber) =>
+      this.hover$.pipe(
+        filter((hover) => hover.hovered === hovered)
+      ).subscribe((hover) => this.zone.run(() => subscriber.next(hover.evt!)))
+    );
+  }
+
+  private isRendered(evt: MapMouseEvent) {
+    // The outputs may be subscribed before the feature is added
+    return !!this.feature && this.GeoJSONSourceComponent.getRenderedFeatureIds(evt).indexOf(this.feature.id!) > -1;
+  }
 }
@@ -0,0 +1,179 @@
+import { async, ComponentFixture, fakeAsync, TestBed, tick } from '@angular/core/testing';
+import { AsyncSubject, EMPTY, Observable, of, Subject } from 'rxjs';
+import { MapService } from '../../map/map.service';
+import { GeoJSONSourceComponent } from './geojson-source.component';
+
+describe('GeoJSONSourceComponent', () => {
+  class MapServiceSpy {
+    addSource = jasmine.createSpy('addSource');
+    removeSource = jasmine.createSpy('removeSource');
+    getSource = jasmine.createSpy('getSource');
+    queryRenderedFeatures = jasmine.createSpy('queryRenderedFeatures').and.returnValue([]);
+    on$ = jasmine.createSpy('on$').and.returnValue(EMPTY);
+    move = jasmine.createSpy('move');
+    getCurrentViewportBbox = jasmine.createSpy('getCurrentViewportBbox').and.returnValue([10, 10, 20, 20]);
+    mapLoaded$: Observable<void> = of(undefined);
+    mapInstance = {
+      getZoom: () => 2.5,
+      getStyle: () => ({
+        layers: [
+          { id: 'layerA', source: 'sourceId' },
+          { id: 'otherLayer', source: 'otherSourceId' },
+          { id: 'layerB', source: 'sourceId' }
+        ]
+      })
+    };
+  }
+
+  const point = (id: number): GeoJSON.Feature<GeoJSON.Point> => ({
+    type: 'Feature',
+    id,
+    geometry: { type: 'Point', coordinates: [0, 0] },
+    properties: {}
+  });
+
+  let msSpy: MapServiceSpy;
+  let component: GeoJSONSourceComponent;
+  let fixture: ComponentFixture<GeoJSONSourceComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [GeoJSONSourceComponent]
+    })
+      .overrideComponent(GeoJSONSourceComponent, {
+        set: {
+          providers: [
+            { provide: MapService, useClass: MapServiceSpy }
+          ]
+        }
+      })
+      .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(GeoJSONSourceComponent);
+    component = fixture.componentInstance;
+    msSpy = <any>fixture.debugElement.injector.get<MapService>(MapService);
+    component.id = 'sourceId';
+  });
+
+  describe('Feature tests', () => {
+    it('should set the data once per frame', fakeAsync(() => {
+      const sourceSpy = jasmine.createSpyObj('GeoJSONSource', ['setData']);
+      msSpy.getSource.and.returnValue(sourceSpy);
+      fixture.detectChanges();
+      const features = [point(1), point(2), point(3)];
+      features.forEach((feature) => component.addFeature(feature));
+      component.removeFeature(features[1]);
+      tick(16);
+      expect(sourceSpy.setData).toHaveBeenCalledTimes(1);
+      expect(sourceSpy.setData).toHaveBeenCalledWith({ type: 'FeatureCollection', features: [features[0], features[2]] });
+    }));
+  });
+
+  describe('Data tests', () => {
+    it('should use the latest data$ value emitted before the map is loaded', () => {
+      const mapLoaded = new AsyncSubject<void>();
+      msSpy.mapLoaded$ = mapLoaded;
+      const data$ = new Subject<any>();
+      component.data$ = data$;
+      fixture.detectChanges();
+      data$.next({ type: 'FeatureCollection', features: [point(1)] });
+      data$.next({ add: [point(2)] });
+      mapLoaded.next(undefined);
+      mapLoaded.complete();
+      expect(msSpy.addSource).toHaveBeenCalledWith('sourceId', jasmine.objectContaining({
+        data: { type: 'FeatureCollection', features: [point(1), point(2)] }
+      }));
+    });
+
+    it('should add the loaded features to the other features', fakeAsync(() => {
+      const sourceSpy = jasmine.createSpyObj('GeoJSONSource', ['setData']);
+      msSpy.getSource.and.returnValue(sourceSpy);
+      const loaded = new Subject<GeoJSON.FeatureCollection<GeoJSON.Point>>();
+      component.loader = () => loaded;
+      fixture.detectChanges();
+      component.addFeature(point(1));
+      loaded.next({ type: 'FeatureCollection', features: [point(2)] });
+      loaded.complete();
+      tick(16);
+      expect(sourceSpy.setData).toHaveBeenCalledWith({ type: 'FeatureCollection', features: [point(1), point(2)] });
+    }));
+  });
+
+  describe('Cluster tests', () => {
+    const cluster = {
+      type: 'Feature',
+      id: 10,
+      geometry: { type: 'Point', coordinates: [1, 2] },
+      properties: { cluster: true, cluster_id: 10, point_count: 3 }
+    };
+
+    it('should query the cluster expansion zoom', () => {
+      const sourceSpy = {
+        getClusterExpansionZoom: jasmine.createSpy('getClusterExpansionZoom')
+          .and.callFake((_clusterId: number, callback: Function) => callback(null, 5))
+      };
+      msSpy.getSource.and.returnValue(sourceSpy);
+      fixture.detectChanges();
+      const zooms: number[] = [];
+      component.getClusterExpansionZoom(10).subscribe((zoom) => zooms.push(zoom));
+      expect(sourceSpy.getClusterExpansionZoom).toHaveBeenCalledWith(10, jasmine.any(Function));
+      expect(zooms).toEqual([5]);
+    });
+
+    it('should emit the errors of the cluster queries', () => {
+      msSpy.getSource.and.returnValue({
+        getClusterLeaves: (_clusterId: number, _limit: number, _offset: number, callback: Function) => callback('No cluster')
+      });
+      fixture.detectChanges();
+      const errors: any[] = [];
+      component.getClusterLeaves(10).subscribe(undefined, (error) => errors.push(error));
+      expect(errors).toEqual(['No cluster']);
+    });
+
+    it('should zoom on a clicked cluster with clusterClickZoom', () => {
+      const click = new Subject<any>();
+      msSpy.on$.and.callFake((eventName: string) => eventName === 'click' ? click : EMPTY);
+      msSpy.getSource.and.returnValue({
+        getClusterExpansionZoom: (_clusterId: number, callback: Function) => callback(null, 5)
+      });
+      msSpy.queryRenderedFeatures.and.returnValue([cluster]);
+      component.cluster = true;
+      component.clusterClickZoom = true;
+      fixture.detectChanges();
+      click.next({ point: { x: 1, y: 2 } });
+      expect(msSpy.move).toHaveBeenCalledWith('easeTo', undefined, 5, [1, 2]);
+    });
+
+    it('should not zoom on a clicked cluster without clusterClickZoom', () => {
+      const click = new Subject<any>();
+      msSpy.on$.and.callFake((eventName: string) => eventName === 'click' ? click : EMPTY);
+      msSpy.queryRenderedFeatures.and.returnValue([cluster]);
+      component.cluster = true;
+      fixture.detectChanges();
+      click.next({ point: { x: 1, y: 2 } });
+      expect(msSpy.queryRenderedFeatures).not.toHaveBeenCalled();
+      expect(msSpy.move).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rendered features tests', () => {
+    it('should only query the layers of the source, once per event', () => {
+      fixture.detectChanges();
+      const evt = <any>{ point: { x: 1, y: 2 } };
+      msSpy.queryRenderedFeatures.and.returnValue([{ id: 1 }, { id: 2 }]);
+      expect(component.getRenderedFeatureIds(evt)).toEqual([1, 2]);
+      expect(component.getRenderedFeatureIds(evt)).toEqual([1, 2]);
+      expect(msSpy.queryRenderedFeatures).toHaveBeenCalledTimes(1);
+      expect(msSpy.queryRenderedFeatures).toHaveBeenCalledWith(evt.point, { layers: ['layerA', 'layerB'] });
+    });
+
+    it('should not query the map when no layer uses the source', () => {
+      component.id = 'unusedSourceId';
+      fixture.detectChanges();
+      expect(component.getRenderedFeatureIds(<any>{ point: { x: 1, y: 2 } })).toEqual([]);
+      expect(msSpy.queryRenderedFeatures).not.toHaveBeenCalled();
+    });
+  });
+});
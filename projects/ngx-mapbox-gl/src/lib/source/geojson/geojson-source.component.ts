@@ -1,8 +1,26 @@
-import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
-import { GeoJSONGeometry, GeoJSONSource, GeoJSONSourceOptions } from 'mapbox-gl';
-import { fromEvent, Subject, Subscription } from 'rxjs';
-import { debounceTime, filter } from 'rxjs/operators';
-import { MapService } from '../../map/map.service';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  EventEmitter,
+  Input,
+  NgZone,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  SimpleChanges
+} from '@angular/core';
+import { GeoJSONGeometry, GeoJSONSource, GeoJSONSourceOptions, MapMouseEvent } from 'mapbox-gl';
+import { animationFrameScheduler, Observable, Subject, Subscription } from 'rxjs';
+import { auditTime, filter, startWith } from 'rxjs/operators';
+import { AllSource, MapService } from '../../map/map.service';
+import {
+  GeoJSONClusterFeature,
+  GeoJSONSourceData,
+  GeoJSONSourceLoader,
+  GeoJSONSourcePatch
+} from './geojson-source.types';
+import { TileLoader } from './tile-loader';
 
 @Component({
   selector: 'mgl-geojson-source',
@@ -12,6 +30,15 @@ import { MapService } from '../../map/map.service';
 export class GeoJSONSourceComponent implements OnInit, OnDestroy, OnChanges, GeoJSONSourceOptions {
   /* Init inputs */
   @Input() id: string;
+  /**
+   * Load the features of the viewport tile by tile on moveend.
+   * They are added to the features of data (if it is not a url), data$ and mgl-feature.
+   */
+  @Input() loader?: GeoJSONSourceLoader;
+  /**
+   * Number of tiles kept in cache by the loader
+   */
+  @Input() loaderCacheSize = 64;
 
   /* Dynamic inputs */
   @Input() data?: GeoJSON.Feature<GeoJSONGeometry> | GeoJSON.FeatureCollection<GeoJSONGeometry> | string;
@@ -22,15 +49,33 @@ export class GeoJSONSourceComponent implements OnInit, OnDestroy, OnChanges, Geo
   @Input() cluster?: boolean;
   @Input() clusterRadius?: number;
   @Input() clusterMaxZoom?: number;
+  /**
+   * Zoom to the expansion zoom of a cluster when it is clicked
+   */
+  @Input() clusterClickZoom?: boolean;
+  /**
+   * Alternative to data for live feeds: full collections or patches, applied at most once per frame.
+   * Subscribed to as soon as the component is initialized, the latest value is used when the map is loaded.
+   */
+  @Input() data$?: Observable<GeoJSONSourceData>;
+
+  @Output() dataLoaded = new EventEmitter<void>();
+  @Output() dataError = new EventEmitter<any>();
+  @Output() loading = new EventEmitter<void>();
+  @Output() loaded = new EventEmitter<void>();
 
   updateFeatureData = new Subject();
 
   private sub = new Subscription();
+  private dataSub?: Subscription;
+  private tileLoader?: TileLoader;
   private sourceAdded = false;
   private featureIdCounter = 0;
+  private renderedFeatures: { event?: MapMouseEvent, features: GeoJSON.Feature<GeoJSON.GeometryObject>[] } = { features: [] };
 
   constructor(
-    private MapService: MapService
+    private MapService: MapService,
+    private zone: NgZone
   ) { }
 
   ngOnInit() {
@@ -40,18 +85,16 @@ export class GeoJSONSourceComponent implements OnInit, OnDestroy, OnChanges, Geo
         features: []
       };
     }
+    this.subscribeData();
     this.MapService.mapLoaded$.subscribe(() => {
       this.init();
-      const sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getSource(this.id))
-      ).subscribe(() => {
-        this.init();
-      });
-      this.sub.add(sub);
     });
   }
 
   ngOnChanges(changes: SimpleChanges) {
+    if (changes.data$ && !changes.data$.isFirstChange()) {
+      this.subscribeData();
+    }
     if (!this.sourceAdded) {
       return;
     }
@@ -64,17 +107,22 @@ export class GeoJSONSourceComponent implements OnInit, OnDestroy, OnChanges, Geo
       changes.clusterRadius && !changes.clusterRadius.isFirstChange() ||
       changes.clusterMaxZoom && !changes.clusterMaxZoom.isFirstChange()
     ) {
-      this.ngOnDestroy();
-      this.ngOnInit();
+      this.MapService.updateSource(this.id, this.getSourceOptions());
     }
     if (changes.data && !changes.data.isFirstChange()) {
       const source = this.MapService.getSource<GeoJSONSource>(this.id);
-      source.setData(this.data!);
+      source.setData(this.getData()!);
     }
   }
 
   ngOnDestroy() {
     this.sub.unsubscribe();
+    if (this.dataSub) {
+      this.dataSub.unsubscribe();
+    }
+    if (this.tileLoader) {
+      this.tileLoader.destroy();
+    }
     if (this.sourceAdded) {
       this.MapService.removeSource(this.id);
     }
@@ -99,23 +147,192 @@ export class GeoJSONSourceComponent implements OnInit, OnDestroy, OnChanges, Geo
     return ++this.featureIdCounter;
   }
 
+  /**
+   * Ids of the features of this source rendered under the mouse
+   */
+  getRenderedFeatureIds(evt: MapMouseEvent) {
+    return this.getRenderedFeatures(evt).map((feature) => feature.id!);
+  }
+
+  /**
+   * Zoom at which the cluster splits into several children
+   */
+  getClusterExpansionZoom(clusterId: number): Observable<number> {
+    return this.fromClusterQuery<number>((callback) =>
+      this.MapService.getSource<GeoJSONSource>(this.id).getClusterExpansionZoom(clusterId, callback)
+    );
+  }
+
+  /**
+   * Children of the cluster on the next zoom level, clusters or points
+   */
+  getClusterChildren(clusterId: number): Observable<(GeoJSONClusterFeature | GeoJSON.Feature<GeoJSONGeometry>)[]> {
+    return this.fromClusterQuery<GeoJSON.Feature<GeoJSONGeometry>[]>((callback) =>
+      this.MapService.getSource<GeoJSONSource>(this.id).getClusterChildren(clusterId, callback)
+    );
+  }
+
+  /**
+   * Points of the cluster, by pages of limit points
+   */
+  getClusterLeaves(clusterId: number, limit = 10, offset = 0): Observable<GeoJSON.Feature<GeoJSONGeometry>[]> {
+    return this.fromClusterQuery<GeoJSON.Feature<GeoJSONGeometry>[]>((callback) =>
+      this.MapService.getSource<GeoJSONSource>(this.id).getClusterLeaves(clusterId, limit, offset, callback)
+    );
+  }
+
   private init() {
-    this.MapService.addSource(this.id, {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    // At most one setData per frame, no matter how many features changed
+    const sub = this.updateFeatureData.pipe(auditTime(0, animationFrameScheduler)).subscribe(() => {
+      const source = this.MapService.getSource<GeoJSONSource>(this.id);
+      source.setData(this.getData()!);
+    });
+    this.sub.add(sub);
+    this.bindDataEvents();
+    if (this.loader) {
+      this.bindLoader(this.loader);
+    }
+    this.sub.add(this.MapService.on$('click', { outsideAngular: true }).pipe(
+      filter(() => !!this.cluster && !!this.clusterClickZoom)
+    ).subscribe((evt) => this.zoomOnCluster(evt)));
+    this.sourceAdded = true;
+  }
+
+  private zoomOnCluster(evt: MapMouseEvent) {
+    const cluster = <GeoJSONClusterFeature | undefined>this.getRenderedFeatures(evt)
+      .find((feature) => !!feature.properties && feature.properties.cluster);
+    if (!cluster) {
+      return;
+    }
+    this.getClusterExpansionZoom(cluster.properties.cluster_id).subscribe((zoom) => {
+      this.MapService.move('easeTo', undefined, zoom, <[number, number]>cluster.geometry.coordinates);
+    });
+  }
+
+  private getRenderedFeatures(evt: MapMouseEvent) {
+    // Queried once per event for all the features
+    if (this.renderedFeatures.event !== evt) {
+      // Only the layers of this source are queried
+      const layerIds = (this.MapService.mapInstance.getStyle().layers || [])
+        .filter((layer) => layer.source === this.id)
+        .map((layer) => layer.id);
+      this.renderedFeatures = {
+        event: evt,
+        features: layerIds.length ? this.MapService.queryRenderedFeatures(evt.point, { layers: layerIds }) : []
+      };
+    }
+    return this.renderedFeatures.features;
+  }
+
+  private fromClusterQuery<T>(query: (callback: (error: any, result: T) => void) => void) {
+    return new Observable<T>((subscriber) => {
+      query((error, result) => this.zone.run(() => {
+        if (error) {
+          subscriber.error(error);
+        } else {
+          subscriber.next(result);
+          subscriber.complete();
+        }
+      }));
+    });
+  }
+
+  private bindLoader(loader: GeoJSONSourceLoader) {
+    const tileLoader = new TileLoader(loader, this.loaderCacheSize, {
+      loadStart: () => this.zone.run(() => this.loading.emit()),
+      tileLoad: () => this.updateFeatureData.next(),
+      idle: () => this.zone.run(() => this.loaded.emit()),
+      error: (error) => this.zone.run(() => this.dataError.emit(error))
+    });
+    this.tileLoader = tileLoader;
+    this.sub.add(this.MapService.on$('moveend', { outsideAngular: true }).pipe(
+      startWith<any>(undefined)
+    ).subscribe(() => {
+      tileLoader.load(this.MapService.getCurrentViewportBbox(), this.MapService.mapInstance.getZoom());
+    }));
+  }
+
+  private bindDataEvents() {
+    if (this.dataLoaded.observers.length) {
+      this.sub.add(this.MapService.on$('sourcedata', { outsideAngular: true }).pipe(
+        filter((evt: any) => evt.sourceId === this.id && evt.sourceDataType === 'content')
+      ).subscribe(() => this.zone.run(() => this.dataLoaded.emit())));
+    }
+    if (this.dataError.observers.length) {
+      this.sub.add(this.MapService.on$('error', { outsideAngular: true }).pipe(
+        filter((evt: any) => evt.sourceId === this.id)
+      ).subscribe((evt: any) => this.zone.run(() => this.dataError.emit(evt.error))));
+    }
+  }
+
+  private subscribeData() {
+    if (this.dataSub) {
+      this.dataSub.unsubscribe();
+    }
+    if (!this.data$) {
+      return;
+    }
+    this.dataSub = this.data$.subscribe(
+      (data) => {
+        this.applyData(data);
+        this.updateFeatureData.next();
+      },
+      (error) => this.zone.run(() => this.dataError.emit(error))
+    );
+  }
+
+  private applyData(data: GeoJSONSourceData) {
+    if ((<GeoJSON.FeatureCollection<GeoJSONGeometry>>data).type === 'FeatureCollection') {
+      this.data = <GeoJSON.FeatureCollection<GeoJSONGeometry>>data;
+      return;
+    }
+    const patch = <GeoJSONSourcePatch>data;
+    // Patches apply on top of the current collection, a url or a single feature is discarded
+    const collection = this.data && typeof this.data !== 'string' && this.data.type === 'FeatureCollection' ?
+      this.data :
+      <GeoJSON.FeatureCollection<GeoJSONGeometry>>{ type: 'FeatureCollection', features: [] };
+    const removedIds = new Set(patch.remove || []);
+    const updatedFeatures = new Map((patch.update || []).map((feature): [string | number, GeoJSON.Feature<GeoJSONGeometry>] =>
+      [feature.id!, feature]
+    ));
+    this.data = {
+      ...collection,
+      features: [
+        ...collection.features
+          .filter((feature) => !removedIds.has(feature.id!))
+          .map((feature) => updatedFeatures.get(feature.id!) || feature),
+        ...(patch.add || [])
+      ]
+    };
+  }
+
+  /**
+   * The data, with the features of the loaded tiles
+   */
+  private getData() {
+    if (!this.tileLoader) {
+      return this.data;
+    }
+    const data = this.data;
+    const features = !data || typeof data === 'string' ? [] : data.type === 'FeatureCollection' ? data.features : [data];
+    return <GeoJSON.FeatureCollection<GeoJSONGeometry>>{
+      type: 'FeatureCollection',
+      features: [...features, ...this.tileLoader.getFeatures()]
+    };
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
       type: 'geojson',
-      data: this.data,
+      data: this.getData(),
       maxzoom: this.maxzoom,
       minzoom: this.minzoom,
       buffer: this.buffer,
       tolerance: this.tolerance,
       cluster: this.cluster,
       clusterRadius: this.clusterRadius,
-      clusterMaxZoom: this.clusterMaxZoom,
-    });
-    const sub = this.updateFeatureData.pipe(debounceTime(0)).subscribe(() => {
-      const source = this.MapService.getSource<GeoJSONSource>(this.id);
-      source.setData(this.data!);
-    });
-    this.sub.add(sub);
-    this.sourceAdded = true;
+      clusterMaxZoom: this.clusterMaxZoom
+    };
   }
 }
@@ -0,0 +1,35 @@
+import { GeoJSONGeometry } from 'mapbox-gl';
+import { Observable } from 'rxjs';
+
+/**
+ * Incremental change of the data of a mgl-geojson-source, the features are matched by id
+ */
+export interface GeoJSONSourcePatch {
+  add?: GeoJSON.Feature<GeoJSONGeometry>[];
+  update?: GeoJSON.Feature<GeoJSONGeometry>[];
+  remove?: (string | number)[];
+}
+
+export type GeoJSONSourceData = GeoJSON.FeatureCollection<GeoJSONGeometry> | GeoJSONSourcePatch;
+
+/**
+ * [west, south, east, north]
+ */
+export type GeoJSONSourceBbox = [number, number, number, number];
+
+/**
+ * Features of a tile of the viewport, zoom being the zoom level of the tile
+ */
+export type GeoJSONSourceLoader = (bbox: GeoJSONSourceBbox, zoom: number) => Observable<GeoJSON.FeatureCollection<GeoJSONGeometry>>;
+
+/**
+ * Properties added by mapbox-gl to the clusters of a source with cluster: true
+ */
+export interface GeoJSONClusterProperties {
+  cluster: true;
+  cluster_id: number;
+  point_count: number;
+  point_count_abbreviated: number | string;
+}
+
+export type GeoJSONClusterFeature = GeoJSON.Feature<GeoJSON.Point, GeoJSONClusterProperties>;
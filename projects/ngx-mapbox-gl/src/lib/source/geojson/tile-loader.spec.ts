@@ -0,0 +1,69 @@
+import { GeoJSONGeometry } from 'mapbox-gl';
+import { NEVER, of, Subject } from 'rxjs';
+import { GeoJSONSourceBbox } from './geojson-source.types';
+import { TileLoader, TileLoaderCallbacks } from './tile-loader';
+
+describe('TileLoader', () => {
+  const point = (id: number): GeoJSON.Feature<GeoJSONGeometry> => ({
+    type: 'Feature',
+    id,
+    geometry: { type: 'Point', coordinates: [0, 0] },
+    properties: {}
+  });
+  const collection = (...features: GeoJSON.Feature<GeoJSONGeometry>[]): GeoJSON.FeatureCollection<GeoJSONGeometry> => ({
+    type: 'FeatureCollection',
+    features
+  });
+  // Within the tile 2/2/1
+  const bbox: GeoJSONSourceBbox = [10, 10, 20, 20];
+  // Within the tile 2/0/1
+  const otherBbox: GeoJSONSourceBbox = [-170, 10, -160, 20];
+  let callbacks: jasmine.SpyObj<TileLoaderCallbacks>;
+
+  beforeEach(() => {
+    callbacks = jasmine.createSpyObj('callbacks', ['loadStart', 'tileLoad', 'idle', 'error']);
+  });
+
+  it('should load the tiles of the viewport once', () => {
+    const loader = jasmine.createSpy('loader').and.returnValue(of(collection(point(1))));
+    const tileLoader = new TileLoader(loader, 10, callbacks);
+    tileLoader.load(bbox, 2.5);
+    tileLoader.load(bbox, 2.8);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader.calls.mostRecent().args[1]).toEqual(2);
+    const [west, south, east, north] = loader.calls.mostRecent().args[0];
+    expect([west, east]).toEqual([0, 90]);
+    expect(south).toBeCloseTo(0);
+    expect(north).toBeCloseTo(66.513, 3);
+    expect(callbacks.loadStart).toHaveBeenCalledTimes(1);
+    expect(callbacks.idle).toHaveBeenCalledTimes(1);
+    expect(tileLoader.getFeatures()).toEqual([point(1)]);
+  });
+
+  it('should deduplicate the features by id', () => {
+    const loader = jasmine.createSpy('loader').and.returnValues(of(collection(point(1), point(2))), of(collection(point(2), point(3))));
+    const tileLoader = new TileLoader(loader, 10, callbacks);
+    tileLoader.load(bbox, 2);
+    tileLoader.load(otherBbox, 2);
+    expect(tileLoader.getFeatures().map((feature) => feature.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should cancel the requests of the tiles out of the viewport', () => {
+    const request = new Subject<GeoJSON.FeatureCollection<GeoJSONGeometry>>();
+    const loader = jasmine.createSpy('loader').and.returnValues(request, NEVER);
+    const tileLoader = new TileLoader(loader, 10, callbacks);
+    tileLoader.load(bbox, 2);
+    tileLoader.load(otherBbox, 2);
+    expect(request.observers.length).toEqual(0);
+    expect(callbacks.loadStart).toHaveBeenCalledTimes(1);
+    expect(callbacks.idle).not.toHaveBeenCalled();
+  });
+
+  it('should evict the least recently used tiles', () => {
+    const loader = jasmine.createSpy('loader').and.returnValues(of(collection(point(1))), of(collection(point(2))));
+    const tileLoader = new TileLoader(loader, 1, callbacks);
+    tileLoader.load(bbox, 2);
+    tileLoader.load(otherBbox, 2);
+    expect(tileLoader.getFeatures()).toEqual([point(2)]);
+  });
+});
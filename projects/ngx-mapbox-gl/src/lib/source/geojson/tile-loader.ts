@@ -0,0 +1,153 @@
+import { GeoJSONGeometry } from 'mapbox-gl';
+import { Subscription } from 'rxjs';
+import { GeoJSONSourceBbox, GeoJSONSourceLoader } from './geojson-source.types';
+
+export interface TileLoaderCallbacks {
+  loadStart: () => void;
+  tileLoad: () => void;
+  idle: () => void;
+  error: (error: any) => void;
+}
+
+interface Tile {
+  key: string;
+  bbox: GeoJSONSourceBbox;
+}
+
+const MAX_LATITUDE = 85.0511287798;
+
+/**
+ * Call a loader for each tile (web mercator grid) of the viewport, and keep the most recently used tiles in cache.
+ */
+export class TileLoader {
+  // Ordered from the least to the most recently used
+  private tiles = new Map<string, GeoJSON.Feature<GeoJSONGeometry>[]>();
+  private pending = new Map<string, Subscription>();
+
+  constructor(
+    private loader: GeoJSONSourceLoader,
+    private maxCacheSize: number,
+    private callbacks: TileLoaderCallbacks
+  ) { }
+
+  load(bbox: GeoJSONSourceBbox, zoom: number) {
+    const tiles = getTiles(bbox, Math.max(0, Math.floor(zoom)));
+    const tileKeys = tiles.map((tile) => tile.key);
+    const wasLoading = this.pending.size > 0;
+    // Requests of tiles out of the viewport are stale
+    this.pending.forEach((sub, key) => {
+      if (tileKeys.indexOf(key) === -1) {
+        sub.unsubscribe();
+        this.pending.delete(key);
+      }
+    });
+    const tilesToLoad = tiles.filter((tile) => {
+      const features = this.tiles.get(tile.key);
+      if (features) {
+        this.cacheTile(tile.key, features);
+        return false;
+      }
+      return !this.pending.has(tile.key);
+    });
+    if (!tilesToLoad.length) {
+      if (wasLoading && !this.pending.size) {
+        this.callbacks.idle();
+      }
+      return;
+    }
+    if (!wasLoading) {
+      this.callbacks.loadStart();
+    }
+    // Placeholders first, the loader can complete synchronously
+    tilesToLoad.forEach((tile) => this.pending.set(tile.key, Subscription.EMPTY));
+    tilesToLoad.forEach((tile) => this.loadTile(tile));
+  }
+
+  /**
+   * Features of the cached tiles, a feature spanning several tiles is only kept once
+   */
+  getFeatures() {
+    const features: GeoJSON.Feature<GeoJSONGeometry>[] = [];
+    const featureIds = new Set<string | number>();
+    this.tiles.forEach((tileFeatures) => tileFeatures.forEach((feature) => {
+      if (feature.id === undefined) {
+        features.push(feature);
+      } else if (!featureIds.has(feature.id)) {
+        featureIds.add(feature.id);
+        features.push(feature);
+      }
+    }));
+    return features;
+  }
+
+  destroy() {
+    this.pending.forEach((sub) => sub.unsubscribe());
+    this.pending.clear();
+    this.tiles.clear();
+  }
+
+  private loadTile(tile: Tile) {
+    const z = Number(tile.key.split('/')[0]);
+    const end = () => {
+      this.pending.delete(tile.key);
+      if (!this.pending.size) {
+        this.callbacks.idle();
+      }
+    };
+    const sub = this.loader(tile.bbox, z).subscribe(
+      (collection) => {
+        this.cacheTile(tile.key, collection.features);
+        this.callbacks.tileLoad();
+      },
+      (error) => {
+        this.callbacks.error(error);
+        end();
+      },
+      end
+    );
+    if (this.pending.has(tile.key)) {
+      this.pending.set(tile.key, sub);
+    }
+  }
+
+  private cacheTile(key: string, features: GeoJSON.Feature<GeoJSONGeometry>[]) {
+    this.tiles.delete(key);
+    this.tiles.set(key, features);
+    if (this.tiles.size > this.maxCacheSize) {
+      this.tiles.delete(this.tiles.keys().next().value);
+    }
+  }
+}
+
+function getTiles([west, south, east, north]: GeoJSONSourceBbox, z: number): Tile[] {
+  const [minX, minY] = toTileCoordinates(west, north, z);
+  const [maxX, maxY] = toTileCoordinates(east, south, z);
+  const tiles: Tile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({
+        key: `${z}/${x}/${y}`,
+        bbox: [toLng(x, z), toLat(y + 1, z), toLng(x + 1, z), toLat(y, z)]
+      });
+    }
+  }
+  return tiles;
+}
+
+function toTileCoordinates(lng: number, lat: number, z: number) {
+  const size = Math.pow(2, z);
+  const clampedLng = Math.min(Math.max(lng, -180), 180);
+  const latRad = Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE) * Math.PI / 180;
+  const x = Math.floor((clampedLng + 180) / 360 * size);
+  const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * size);
+  return [Math.min(x, size - 1), Math.min(Math.max(y, 0), size - 1)];
+}
+
+function toLng(x: number, z: number) {
+  return x / Math.pow(2, z) * 360 - 180;
+}
+
+function toLat(y: number, z: number) {
+  const n = Math.PI - 2 * Math.PI * y / Math.pow(2, z);
+  return Math.atan((Math.exp(n) - Math.exp(-n)) / 2) * 180 / Math.PI;
+}
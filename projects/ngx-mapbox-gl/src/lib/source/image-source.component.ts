@@ -1,8 +1,6 @@
 import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
 import { ImageSourceOptions } from 'mapbox-gl';
-import { fromEvent, Subscription } from 'rxjs';
-import { filter } from 'rxjs/operators';
-import { MapService } from '../map/map.service';
+import { AllSource, MapService } from '../map/map.service';
 
 @Component({
   selector: 'mgl-image-source',
@@ -18,7 +16,6 @@ export class ImageSourceComponent implements OnInit, OnDestroy, OnChanges, Image
   @Input() coordinates: number[][];
 
   private sourceAdded = false;
-  private sub = new Subscription();
 
   constructor(
     private MapService: MapService
@@ -27,12 +24,6 @@ export class ImageSourceComponent implements OnInit, OnDestroy, OnChanges, Image
   ngOnInit() {
     this.MapService.mapLoaded$.subscribe(() => {
       this.init();
-      const sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getSource(this.id))
-      ).subscribe(() => {
-        this.init();
-      });
-      this.sub.add(sub);
     });
   }
 
@@ -44,24 +35,26 @@ export class ImageSourceComponent implements OnInit, OnDestroy, OnChanges, Image
       changes.url && !changes.url.isFirstChange() ||
       changes.coordinates && !changes.coordinates.isFirstChange()
     ) {
-      this.ngOnDestroy();
-      this.ngOnInit();
+      this.MapService.updateSource(this.id, this.getSourceOptions());
     }
   }
 
   ngOnDestroy() {
-    this.sub.unsubscribe();
     if (this.sourceAdded) {
       this.MapService.removeSource(this.id);
     }
   }
 
   private init() {
-    this.MapService.addSource(this.id, {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    this.sourceAdded = true;
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
       type: 'image',
       url: this.url,
       coordinates: this.coordinates
-    });
-    this.sourceAdded = true;
+    };
   }
 }
@@ -0,0 +1,68 @@
+import { SimpleChange } from '@angular/core';
+import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { MapService } from '../map/map.service';
+import { RasterDemSourceComponent } from './raster-dem-source.component';
+
+describe('RasterDemSourceComponent', () => {
+  class MapServiceSpy {
+    addSource = jasmine.createSpy('addSource');
+    updateSource = jasmine.createSpy('updateSource');
+    removeSource = jasmine.createSpy('removeSource');
+    mapLoaded$ = of(undefined);
+  }
+
+  let msSpy: MapServiceSpy;
+  let component: RasterDemSourceComponent;
+  let fixture: ComponentFixture<RasterDemSourceComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [RasterDemSourceComponent]
+    })
+      .overrideComponent(RasterDemSourceComponent, {
+        set: {
+          providers: [
+            { provide: MapService, useClass: MapServiceSpy }
+          ]
+        }
+      })
+      .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RasterDemSourceComponent);
+    component = fixture.componentInstance;
+    msSpy = <any>fixture.debugElement.injector.get<MapService>(MapService);
+    component.id = 'sourceId';
+    component.url = 'mapbox://mapbox.terrain-rgb';
+  });
+
+  it('should add a raster-dem source', () => {
+    component.encoding = 'terrarium';
+    fixture.detectChanges();
+    expect(msSpy.addSource).toHaveBeenCalledWith('sourceId', jasmine.objectContaining({
+      type: 'raster-dem',
+      url: 'mapbox://mapbox.terrain-rgb',
+      encoding: 'terrarium'
+    }));
+  });
+
+  it('should update the source when an option changes', () => {
+    fixture.detectChanges();
+    component.encoding = 'mapbox';
+    component.ngOnChanges({
+      encoding: new SimpleChange(undefined, 'mapbox', false)
+    });
+    expect(msSpy.updateSource).toHaveBeenCalledWith('sourceId', jasmine.objectContaining({
+      type: 'raster-dem',
+      encoding: 'mapbox'
+    }));
+  });
+
+  it('should remove the source on destroy', () => {
+    fixture.detectChanges();
+    fixture.destroy();
+    expect(msSpy.removeSource).toHaveBeenCalledWith('sourceId');
+  });
+});
@@ -0,0 +1,77 @@
+import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
+import { RasterDemSource } from 'mapbox-gl';
+import { AllSource, MapService } from '../map/map.service';
+
+@Component({
+  selector: 'mgl-raster-dem-source',
+  template: '',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RasterDemSourceComponent implements OnInit, OnDestroy, OnChanges, RasterDemSource {
+  /* Init inputs */
+  @Input() id: string;
+
+  /* Dynamic inputs */
+  @Input() url: string;
+  @Input() tiles?: string[];
+  @Input() bounds?: number[];
+  @Input() minzoom?: number;
+  @Input() maxzoom?: number;
+  @Input() tileSize?: number;
+  @Input() encoding?: 'terrarium' | 'mapbox';
+
+  type: 'raster-dem' = 'raster-dem'; // Just to make ts happy
+
+  private sourceAdded = false;
+
+  constructor(
+    private MapService: MapService
+  ) { }
+
+  ngOnInit() {
+    this.MapService.mapLoaded$.subscribe(() => {
+      this.init();
+    });
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (!this.sourceAdded) {
+      return;
+    }
+    if (
+      changes.url && !changes.url.isFirstChange() ||
+      changes.tiles && !changes.tiles.isFirstChange() ||
+      changes.bounds && !changes.bounds.isFirstChange() ||
+      changes.minzoom && !changes.minzoom.isFirstChange() ||
+      changes.maxzoom && !changes.maxzoom.isFirstChange() ||
+      changes.tileSize && !changes.tileSize.isFirstChange() ||
+      changes.encoding && !changes.encoding.isFirstChange()
+    ) {
+      this.MapService.updateSource(this.id, this.getSourceOptions());
+    }
+  }
+
+  ngOnDestroy() {
+    if (this.sourceAdded) {
+      this.MapService.removeSource(this.id);
+    }
+  }
+
+  private init() {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    this.sourceAdded = true;
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
+      type: this.type,
+      url: this.url,
+      tiles: this.tiles,
+      bounds: this.bounds,
+      minzoom: this.minzoom,
+      maxzoom: this.maxzoom,
+      tileSize: this.tileSize,
+      encoding: this.encoding
+    };
+  }
+}
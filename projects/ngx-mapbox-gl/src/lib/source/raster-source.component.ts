@@ -1,8 +1,6 @@
 import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
 import { RasterSource } from 'mapbox-gl';
-import { fromEvent, Subscription } from 'rxjs';
-import { filter } from 'rxjs/operators';
-import { MapService } from '../map/map.service';
+import { AllSource, MapService } from '../map/map.service';
 
 @Component({
   selector: 'mgl-raster-source',
@@ -24,7 +22,6 @@ export class RasterSourceComponent implements OnInit, OnDestroy, OnChanges, Rast
   type: 'raster' = 'raster'; // Just to make ts happy
 
   private sourceAdded = false;
-  private sub = new Subscription();
 
   constructor(
     private MapService: MapService
@@ -33,12 +30,6 @@ export class RasterSourceComponent implements OnInit, OnDestroy, OnChanges, Rast
   ngOnInit() {
     this.MapService.mapLoaded$.subscribe(() => {
       this.init();
-      const sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getSource(this.id))
-      ).subscribe(() => {
-        this.init();
-      });
-      this.sub.add(sub);
     });
   }
 
@@ -54,20 +45,23 @@ export class RasterSourceComponent implements OnInit, OnDestroy, OnChanges, Rast
       changes.maxzoom && !changes.maxzoom.isFirstChange() ||
       changes.tileSize && !changes.tileSize.isFirstChange()
     ) {
-      this.ngOnDestroy();
-      this.ngOnInit();
+      this.MapService.updateSource(this.id, this.getSourceOptions());
     }
   }
 
   ngOnDestroy() {
-    this.sub.unsubscribe();
     if (this.sourceAdded) {
       this.MapService.removeSource(this.id);
     }
   }
 
   private init() {
-    const source = {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    this.sourceAdded = true;
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
       type: this.type,
       url: this.url,
       tiles: this.tiles,
@@ -76,7 +70,5 @@ export class RasterSourceComponent implements OnInit, OnDestroy, OnChanges, Rast
       maxzoom: this.maxzoom,
       tileSize: this.tileSize
     };
-    this.MapService.addSource(this.id, source);
-    this.sourceAdded = true;
   }
 }
@@ -1,8 +1,6 @@
 import { ChangeDetectionStrategy, Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges } from '@angular/core';
 import { VectorSource } from 'mapbox-gl';
-import { fromEvent, Subscription } from 'rxjs';
-import { filter } from 'rxjs/operators';
-import { MapService } from '../map/map.service';
+import { AllSource, MapService } from '../map/map.service';
 
 @Component({
   selector: 'mgl-vector-source',
@@ -22,7 +20,6 @@ export class VectorSourceComponent implements OnInit, OnDestroy, OnChanges, Vect
   type: 'vector' = 'vector'; // Just to make ts happy
 
   private sourceAdded = false;
-  private sub = new Subscription();
 
   constructor(
     private MapService: MapService
@@ -31,12 +28,6 @@ export class VectorSourceComponent implements OnInit, OnDestroy, OnChanges, Vect
   ngOnInit() {
     this.MapService.mapLoaded$.subscribe(() => {
       this.init();
-      const sub = fromEvent(this.MapService.mapInstance, 'styledata').pipe(
-        filter(() => !this.MapService.mapInstance.getSource(this.id))
-      ).subscribe(() => {
-        this.init();
-      });
-      this.sub.add(sub);
     });
   }
 
@@ -50,26 +41,28 @@ export class VectorSourceComponent implements OnInit, OnDestroy, OnChanges, Vect
       changes.minzoom && !changes.minzoom.isFirstChange() ||
       changes.maxzoom && !changes.maxzoom.isFirstChange()
     ) {
-      this.ngOnDestroy();
-      this.ngOnInit();
+      this.MapService.updateSource(this.id, this.getSourceOptions());
     }
   }
 
   ngOnDestroy() {
-    this.sub.unsubscribe();
     if (this.sourceAdded) {
       this.MapService.removeSource(this.id);
     }
   }
 
   private init() {
-    this.MapService.addSource(this.id, {
+    this.MapService.addSource(this.id, this.getSourceOptions());
+    this.sourceAdded = true;
+  }
+
+  private getSourceOptions(): AllSource {
+    return {
       type: this.type,
       url: this.url,
       tiles: this.tiles,
       minzoom: this.minzoom,
-      maxzoom: this.maxzoom,
-    });
-    this.sourceAdded = true;
+      maxzoom: this.maxzoom
+    };
   }
 }
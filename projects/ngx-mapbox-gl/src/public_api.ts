@@ -7,6 +7,10 @@ export * from './lib/ngx-mapbox-gl.module';
 // Expose MapService for ngx-mapbox-gl extensions
 export * from './lib/map/map.service';
 export * from './lib/map/map.component';
+export * from './lib/layer/layer.component';
+export * from './lib/map-sync/map-sync.service';
 
 export * from './lib/map/map.types';
 export * from './lib/marker-cluster/marker-cluster.types';
+export * from './lib/source/geojson/geojson-source.types';
+export * from './lib/expression/expression';
@@ -20,6 +20,7 @@ import { DisplayMapComponent } from './examples/display-map.component';
 import { FullscreenComponent } from './examples/fullscreen.component';
 import { GeoJSONLineComponent } from './examples/geojson-line.component';
 import { HeatMapComponent } from './examples/heatmap.component';
+import { HillshadeComponent } from './examples/hillshade.component';
 import { HoverStylesComponent } from './examples/hover-styles.component';
 import { InteractiveFalseComponent } from './examples/interactive-false.component';
 import { LanguageSwitchComponent } from './examples/language-switch.component';
@@ -27,6 +28,7 @@ import { LiveUpdateFeatureComponent } from './examples/live-update-feature.compo
 import { LocateUserComponent } from './examples/locate-user.component';
 import { MapboxGlGeocoderComponent } from './examples/mapbox-gl-geocoder.component';
 import { NavigationComponent } from './examples/navigation.component';
+import { NgxCompareComponent } from './examples/ngx-compare.component';
 import { NgxCustomControlComponent } from './examples/ngx-custom-control.component';
 import { NgxCustomMarkerIconsComponent } from './examples/ngx-custom-marker-icons.component';
 import { DragAMarkerComponent } from './examples/drag-a-marker.component';
@@ -70,6 +72,7 @@ export const DEMO_ROUTES: Routes = [
       { path: '3d-buildings', component: Display3dBuildingsComponent, data: { label: 'Display 3d buildings', cat: Category.LAYERS } },
       { path: 'cluster', component: ClusterComponent, data: { label: 'Create and style clusters', cat: Category.LAYERS } },
       { path: 'heatmap', component: HeatMapComponent, data: { label: 'Create a heatmap layer', cat: Category.LAYERS } },
+      { path: 'hillshade', component: HillshadeComponent, data: { label: 'Add hillshading', cat: Category.LAYERS } },
       { path: 'geojson-line', component: GeoJSONLineComponent, data: { label: 'Add a GeoJSON line', cat: Category.LAYERS } },
       { path: 'ngx-geojson-line', component: NgxGeoJSONLineComponent, data: { label: '[NGX] Add a GeoJSON line', cat: Category.LAYERS } },
       { path: 'custom-marker-icons', component: CustomMarkerIconsComponent, data: { label: 'Add custom icons with Markers', cat: Category.CONTROLS_AND_OVERLAYS } },
@@ -88,6 +91,7 @@ export const DEMO_ROUTES: Routes = [
       { path: 'center-on-symbol', component: CenterOnSymbolComponent, data: { label: 'Center the map on a clicked symbol', cat: Category.USER_INTERACTION } },
       { path: 'ngx-drag-a-point', component: NgxDragAPointComponent, data: { label: '[NGX] Create a draggable point', cat: Category.USER_INTERACTION } },
       { path: 'drag-a-marker', component: DragAMarkerComponent, data: { label: 'Create a draggable marker', cat: Category.USER_INTERACTION } },
+      { path: 'ngx-compare', component: NgxCompareComponent, data: { label: '[NGX] Swipe between maps', cat: Category.USER_INTERACTION } },
       { path: 'hover-styles', component: HoverStylesComponent, data: { label: 'Create a hover effect', cat: Category.USER_INTERACTION } },
       { path: 'popup-on-click', component: PopupOnClickComponent, data: { label: 'Display a popup on click', cat: Category.CONTROLS_AND_OVERLAYS } },
       { path: 'zoomto-linestring', component: ZoomtoLinestringComponent, data: { label: 'Fit to the bounds of a LineString', cat: Category.USER_INTERACTION } },
@@ -122,6 +126,7 @@ export const DEMO_ROUTES: Routes = [
     ToggleLayersComponent,
     ClusterComponent,
     HeatMapComponent,
+    HillshadeComponent,
     GeoJSONLineComponent,
     NgxGeoJSONLineComponent,
     CustomMarkerIconsComponent,
@@ -146,7 +151,8 @@ export const DEMO_ROUTES: Routes = [
     ZoomtoLinestringComponent,
     NgxMarkerClusterComponent,
     ClusterPopupComponent,
-    Display3dBuildingsComponent
+    Display3dBuildingsComponent,
+    NgxCompareComponent
   ]
 })
 export class DemoModule { }
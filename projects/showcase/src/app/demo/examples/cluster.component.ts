@@ -15,6 +15,7 @@ import { Component, OnInit } from '@angular/core';
         [cluster]="true"
         [clusterMaxZoom]="14"
         [clusterRadius]="50"
+        [clusterClickZoom]="true"
       >
       </mgl-geojson-source>
       <mgl-layer
@@ -0,0 +1,25 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'showcase-demo',
+  template: `
+  <mgl-map
+    [style]="'mapbox://styles/mapbox/cjaudgl840gn32rnrepcb9b9g'"
+    [zoom]="[14]"
+    [center]="[-119.5591, 37.715]"
+  >
+    <mgl-raster-dem-source
+      id="dem"
+      url="mapbox://mapbox.terrain-rgb"
+    >
+    </mgl-raster-dem-source>
+    <mgl-hillshade-layer
+      id="hillshading"
+      source="dem"
+      before="waterway-river-canal-shadow"
+    ></mgl-hillshade-layer>
+  </mgl-map>
+  `,
+  styleUrls: ['./examples.css']
+})
+export class HillshadeComponent {}
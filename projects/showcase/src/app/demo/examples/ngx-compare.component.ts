@@ -0,0 +1,29 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'showcase-demo',
+  template: `
+  <mgl-compare>
+    <mgl-map
+      [style]="'mapbox://styles/mapbox/light-v9'"
+      [zoom]="[12]"
+      [center]="[0, 51]"
+    >
+    </mgl-map>
+    <mgl-map
+      [style]="'mapbox://styles/mapbox/dark-v9'"
+      [zoom]="[12]"
+      [center]="[0, 51]"
+    >
+    </mgl-map>
+  </mgl-compare>
+  `,
+  styleUrls: ['./examples.css'],
+  styles: [`
+    mgl-compare {
+      height: 100%;
+      width: 100%;
+    }
+  `]
+})
+export class NgxCompareComponent { }